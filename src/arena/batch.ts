@@ -0,0 +1,326 @@
+import { toUserFacingError } from "../errors.js";
+import { arenaWriteRequests, type ArenaClient } from "./client.js";
+import { EMPTY_JOURNAL_IDS, lookupPreviousPosition } from "./journal.js";
+import {
+  buildConnectBlockPayload,
+  buildCreateBlockPayload,
+  buildCreateChannelPayload,
+  buildMoveConnectionPayload,
+} from "./payloads.js";
+import type {
+  ArenaWriteRequest,
+  BatchIdReference,
+  BatchStepResult,
+  BatchWriteOperation,
+  BatchWriteParams,
+  BatchWriteResult,
+} from "./types.js";
+
+export type BatchWriteClient = Pick<
+  ArenaClient,
+  | "createChannel"
+  | "createBlock"
+  | "connectBlock"
+  | "disconnectConnection"
+  | "moveConnection"
+  | "getConnection"
+  | "getChannel"
+  | "getBlock"
+  | "previewRequest"
+>;
+
+type StepOutcome = Pick<BatchStepResult, "createdId" | "createdType" | "result" | "journalIds"> &
+  Partial<Pick<BatchStepResult, "previousPosition">>;
+
+interface PlannedStep {
+  request: ArenaWriteRequest;
+  /** Confirms the step's targets exist, so a dry run fails the same steps a real run would. */
+  verify: () => Promise<void>;
+  execute: () => Promise<StepOutcome>;
+}
+
+type IdProducingOperation = "create_channel" | "create_block" | "connect_block";
+
+interface OperationReference {
+  field: string;
+  reference: BatchIdReference;
+  producer: IdProducingOperation;
+}
+
+const STEP_REFERENCE_PATTERN = /^\$(\d+)$/;
+const PRODUCED_ID_KIND: Record<IdProducingOperation, string> = {
+  create_channel: "channel",
+  create_block: "block",
+  connect_block: "connection",
+};
+
+export function parseStepReference(reference: BatchIdReference): number | null {
+  if (typeof reference === "number") {
+    return null;
+  }
+  const match = STEP_REFERENCE_PATTERN.exec(reference.trim());
+  if (!match) {
+    throw new Error(`Invalid id reference "${reference}". Use a numeric id or "$<step>", e.g. "$1".`);
+  }
+  return Number(match[1]);
+}
+
+function channelReferences(channelIds: BatchIdReference[]): OperationReference[] {
+  return channelIds.map((reference) => ({ field: "channel_ids", reference, producer: "create_channel" }));
+}
+
+function operationReferences(operation: BatchWriteOperation): OperationReference[] {
+  switch (operation.op) {
+    case "create_channel":
+      return [];
+    case "create_block":
+      return channelReferences(operation.channel_ids);
+    case "connect_block":
+      return [
+        { field: "block_id", reference: operation.block_id, producer: "create_block" },
+        ...channelReferences(operation.channel_ids),
+      ];
+    case "disconnect_connection":
+    case "move_connection":
+      return [{ field: "connection_id", reference: operation.connection_id, producer: "connect_block" }];
+  }
+}
+
+function referencedSteps(operation: BatchWriteOperation): number[] {
+  const steps = operationReferences(operation)
+    .map(({ reference }) => parseStepReference(reference))
+    .filter((step): step is number => step !== null);
+  return [...new Set(steps)];
+}
+
+export function validateBatchReferences(operations: BatchWriteOperation[]): void {
+  operations.forEach((operation, index) => {
+    const step = index + 1;
+    for (const { field, reference, producer } of operationReferences(operation)) {
+      const referenced = parseStepReference(reference);
+      if (referenced === null) {
+        continue;
+      }
+      if (referenced < 1 || referenced >= step) {
+        throw new Error(
+          `Step ${step} references step ${referenced}; only earlier steps (1-${step - 1}) can be referenced.`,
+        );
+      }
+      const source = operations[referenced - 1];
+      if (!source || source.op === producer) {
+        continue;
+      }
+      if (!(source.op in PRODUCED_ID_KIND)) {
+        throw new Error(
+          `Step ${step} references step ${referenced} (${source.op}), which does not produce an id.`,
+        );
+      }
+      const producedKind = PRODUCED_ID_KIND[source.op as IdProducingOperation];
+      throw new Error(
+        `Step ${step} ${field} references step ${referenced} (${source.op}), which produces a ${producedKind} id; ` +
+          `${field} needs a ${PRODUCED_ID_KIND[producer]} id from ${producer}.`,
+      );
+    }
+  });
+}
+
+async function verifyChannels(client: BatchWriteClient, channelIds: number[]): Promise<void> {
+  await Promise.all(channelIds.map((channelId) => client.getChannel(String(channelId))));
+}
+
+function planStep(
+  client: BatchWriteClient,
+  operation: BatchWriteOperation,
+  resolveId: (reference: BatchIdReference) => number,
+  recordPreviousPositions: boolean,
+): PlannedStep {
+  switch (operation.op) {
+    case "create_channel": {
+      const payload = buildCreateChannelPayload(operation);
+      return {
+        request: arenaWriteRequests.createChannel(payload),
+        verify: async () => undefined,
+        execute: async () => {
+          const channel = await client.createChannel(payload);
+          return {
+            createdId: channel.id,
+            createdType: "Channel",
+            result: channel,
+            journalIds: [{ ...EMPTY_JOURNAL_IDS, channelId: channel.id }],
+          };
+        },
+      };
+    }
+    case "create_block": {
+      const channelIds = operation.channel_ids.map(resolveId);
+      const payload = buildCreateBlockPayload({ ...operation, channel_ids: channelIds });
+      return {
+        request: arenaWriteRequests.createBlock(payload),
+        verify: () => verifyChannels(client, channelIds),
+        execute: async () => {
+          const block = await client.createBlock(payload);
+          return {
+            createdId: block.id,
+            createdType: "Block",
+            result: block,
+            journalIds: [{ ...EMPTY_JOURNAL_IDS, blockId: block.id }],
+          };
+        },
+      };
+    }
+    case "connect_block": {
+      const blockId = resolveId(operation.block_id);
+      const channelIds = operation.channel_ids.map(resolveId);
+      const payload = buildConnectBlockPayload({
+        block_id: blockId,
+        channel_ids: channelIds,
+        position: operation.position,
+      });
+      return {
+        request: arenaWriteRequests.connectBlock(payload),
+        verify: async () => {
+          await Promise.all([client.getBlock(blockId), verifyChannels(client, channelIds)]);
+        },
+        execute: async () => {
+          const connections = await client.connectBlock(payload);
+          return {
+            createdId: connections[0].id,
+            createdType: "Connection",
+            result: connections[0],
+            journalIds: connections.map((connection) => ({
+              ...EMPTY_JOURNAL_IDS,
+              blockId,
+              connectionId: connection.id,
+            })),
+          };
+        },
+      };
+    }
+    case "disconnect_connection": {
+      const connectionId = resolveId(operation.connection_id);
+      return {
+        request: arenaWriteRequests.disconnectConnection(connectionId),
+        verify: async () => {
+          await client.getConnection(connectionId);
+        },
+        execute: async () => {
+          await client.disconnectConnection(connectionId);
+          return {
+            createdId: null,
+            createdType: null,
+            result: null,
+            journalIds: [{ ...EMPTY_JOURNAL_IDS, connectionId }],
+          };
+        },
+      };
+    }
+    case "move_connection": {
+      const connectionId = resolveId(operation.connection_id);
+      const payload = buildMoveConnectionPayload({
+        connection_id: connectionId,
+        movement: operation.movement,
+        position: operation.position,
+      });
+      return {
+        request: arenaWriteRequests.moveConnection(connectionId, payload),
+        verify: async () => {
+          await client.getConnection(connectionId);
+        },
+        execute: async () => {
+          const previousPosition = recordPreviousPositions
+            ? await lookupPreviousPosition(client, connectionId, operation.movement)
+            : null;
+          const connection = await client.moveConnection(connectionId, payload);
+          return {
+            createdId: null,
+            createdType: null,
+            result: connection,
+            journalIds: [{ ...EMPTY_JOURNAL_IDS, connectionId }],
+            previousPosition,
+          };
+        },
+      };
+    }
+  }
+}
+
+export async function runBatchWrite(
+  client: BatchWriteClient,
+  params: BatchWriteParams,
+): Promise<BatchWriteResult> {
+  validateBatchReferences(params.operations);
+
+  const completions: Array<Promise<BatchStepResult>> = [];
+  const runStep = async (operation: BatchWriteOperation, index: number): Promise<BatchStepResult> => {
+    const base = {
+      step: index + 1,
+      op: operation.op,
+      createdId: null,
+      createdType: null,
+      result: null,
+      journalIds: [],
+      previousPosition: null,
+      request: null,
+    };
+
+    const dependencies = await Promise.all(
+      referencedSteps(operation).map((step) => completions[step - 1] as Promise<BatchStepResult>),
+    );
+    const unmet = dependencies.find((dependency) => dependency.status !== "succeeded");
+    if (unmet) {
+      const reason =
+        unmet.status === "dry_run"
+          ? `its id is only known after step ${unmet.step} runs for real`
+          : `step ${unmet.step} did not succeed`;
+      return { ...base, status: "skipped", error: `Skipped because ${reason}.` };
+    }
+
+    const producedIds = new Map(dependencies.map((dependency) => [dependency.step, dependency.createdId]));
+    const resolveId = (reference: BatchIdReference): number =>
+      typeof reference === "number" ? reference : (producedIds.get(parseStepReference(reference) ?? 0) ?? 0);
+
+    try {
+      const planned = planStep(client, operation, resolveId, params.recordPreviousPositions === true);
+      if (params.dryRun) {
+        await planned.verify();
+        return { ...base, status: "dry_run", request: client.previewRequest(planned.request), error: null };
+      }
+      const outcome = await planned.execute();
+      return { ...base, ...outcome, status: "succeeded", error: null };
+    } catch (error) {
+      return {
+        ...base,
+        status: "failed",
+        error: toUserFacingError(error, { operation: operation.op, target: `step ${index + 1}` }),
+      };
+    }
+  };
+
+  const steps = new Array<BatchStepResult>(params.operations.length);
+  let cursor = 0;
+  const workerCount = Math.max(1, Math.min(params.concurrency, params.operations.length));
+  const workers = Array.from({ length: workerCount }, async () => {
+    while (cursor < params.operations.length) {
+      const currentIndex = cursor;
+      cursor += 1;
+      const operation = params.operations[currentIndex];
+      if (operation === undefined) {
+        continue;
+      }
+      const completion = runStep(operation, currentIndex);
+      completions[currentIndex] = completion;
+      steps[currentIndex] = await completion;
+    }
+  });
+  await Promise.all(workers);
+
+  const countByStatus = (status: BatchStepResult["status"]) =>
+    steps.filter((step) => step.status === status).length;
+  return {
+    steps,
+    succeededCount: countByStatus("succeeded"),
+    failedCount: countByStatus("failed"),
+    skippedCount: countByStatus("skipped"),
+    dryRun: params.dryRun,
+  };
+}
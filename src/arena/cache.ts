@@ -0,0 +1,351 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { ArenaCacheTtls } from "../config.js";
+import type { ArenaWriteRequest } from "./types.js";
+
+export type CacheEndpoint = keyof ArenaCacheTtls;
+
+export interface ResponseCacheOptions {
+  ttlMs: ArenaCacheTtls;
+  maxEntries: number;
+  filePath: string | null;
+  now?: () => number;
+  persistDelayMs?: number;
+}
+
+interface CacheEntry {
+  key: string;
+  expiresAt: number;
+  tags: string[];
+  value: unknown;
+}
+
+interface CacheFile {
+  version: 1;
+  entries: CacheEntry[];
+}
+
+const DEFAULT_PERSIST_DELAY_MS = 1_000;
+const NUMERIC_CHANNEL_TAG_PATTERN = /^channel:\d+$/;
+
+function splitPath(path: string): string[] {
+  const [pathname = ""] = path.split("?");
+  return pathname
+    .split("/")
+    .filter((segment) => segment.length > 0)
+    .map((segment) => decodeURIComponent(segment));
+}
+
+export function cacheEndpointForPath(path: string): CacheEndpoint | null {
+  const [version, resource] = splitPath(path);
+  if (version !== "v3" && version !== "v2") {
+    return null;
+  }
+  switch (resource) {
+    case "channels":
+      return "channel";
+    case "blocks":
+      return "block";
+    case "users":
+    case "me":
+      return "user";
+    case "search":
+      return "search";
+    default:
+      return null;
+  }
+}
+
+export function cacheTagsForPath(path: string, payload: unknown): string[] {
+  const [, resource, id, subresource] = splitPath(path);
+  const endpoint = cacheEndpointForPath(path);
+  if (endpoint === "search") {
+    return ["search"];
+  }
+  if (endpoint === "user") {
+    return [resource === "me" ? "user:me" : `user:${id}`];
+  }
+  if (!endpoint || id === undefined) {
+    return [];
+  }
+
+  const tags = [`${endpoint}:${id}`];
+  if (endpoint === "channel" && subresource === undefined && payload && typeof payload === "object") {
+    const record = payload as Record<string, unknown>;
+    if (typeof record.id === "number") tags.push(`channel:${record.id}`);
+    if (typeof record.slug === "string") tags.push(`channel:${record.slug}`);
+  }
+  return [...new Set(tags)];
+}
+
+function isChannelTag(tag: string): boolean {
+  return tag.startsWith("channel:") && tag !== "channel:*";
+}
+
+function channelTags(ids: unknown): string[] {
+  return Array.isArray(ids) ? ids.map((id) => `channel:${String(id)}`) : [];
+}
+
+export function writeInvalidationTags(request: ArenaWriteRequest, response: unknown): string[] {
+  const [, resource, id, action] = splitPath(request.path);
+  const body = request.body ?? {};
+
+  if (resource === "channels") {
+    return id === undefined ? ["search", "user:*"] : [`channel:${id}`, "search", "user:*"];
+  }
+  if (resource === "blocks") {
+    return id === undefined
+      ? [...channelTags(body.channel_ids), "search", "user:*"]
+      : [`block:${id}`, "channel:*", "search", "user:*"];
+  }
+  if (resource === "connections") {
+    if (id === undefined) {
+      return [...channelTags(body.channel_ids), `block:${String(body.connectable_id)}`];
+    }
+    if (action === "move") {
+      const record = response && typeof response === "object" ? (response as Record<string, unknown>) : {};
+      return typeof record.channel_id === "number" ? [`channel:${record.channel_id}`] : ["channel:*"];
+    }
+    return ["channel:*", "block:*"];
+  }
+  return [];
+}
+
+export class ResponseCache {
+  private readonly options: ResponseCacheOptions;
+  private readonly now: () => number;
+  private readonly entries = new Map<string, CacheEntry>();
+  private invalidations = 0;
+  private loaded: Promise<void> | null = null;
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: ResponseCacheOptions) {
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Changes on every invalidation; pass the value read before a fetch to `set` to drop responses a write raced. */
+  get generation(): number {
+    return this.invalidations;
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    await this.load();
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, path: string, value: unknown, generation = this.invalidations): Promise<void> {
+    const endpoint = cacheEndpointForPath(path);
+    const ttlMs = endpoint ? this.options.ttlMs[endpoint] : 0;
+    if (ttlMs <= 0 || generation !== this.invalidations) {
+      return;
+    }
+    await this.load();
+    if (generation !== this.invalidations) {
+      return;
+    }
+    this.store({ key, expiresAt: this.now() + ttlMs, tags: cacheTagsForPath(path, value), value });
+    this.schedulePersist();
+  }
+
+  async invalidate(tags: string[]): Promise<number> {
+    this.invalidations += 1;
+    await this.load();
+    const aliases = this.channelAliases();
+    const exact = new Set<string>();
+    const prefixes: string[] = [];
+    // Writes name channels by id while reads may be keyed by slug (or the reverse). Without a cached channel linking
+    // the two, entries keyed the other way cannot be ruled out and are dropped too.
+    const unresolvedKinds = new Set<boolean>();
+    for (const tag of tags) {
+      if (tag.endsWith(":*")) {
+        prefixes.push(tag.slice(0, -1));
+        continue;
+      }
+      exact.add(tag);
+      const tagAliases = aliases.get(tag);
+      tagAliases?.forEach((alias) => exact.add(alias));
+      if (isChannelTag(tag) && !tagAliases) {
+        unresolvedKinds.add(NUMERIC_CHANNEL_TAG_PATTERN.test(tag));
+      }
+    }
+    const isUnresolvedMatch = (tag: string) =>
+      isChannelTag(tag) && !aliases.has(tag) && unresolvedKinds.has(!NUMERIC_CHANNEL_TAG_PATTERN.test(tag));
+
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      const matches = entry.tags.some(
+        (tag) => exact.has(tag) || prefixes.some((prefix) => tag.startsWith(prefix)) || isUnresolvedMatch(tag),
+      );
+      if (matches) {
+        this.entries.delete(key);
+        removed += 1;
+      }
+    }
+    if (removed > 0) {
+      this.schedulePersist();
+    }
+    return removed;
+  }
+
+  async flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    await this.persist();
+  }
+
+  private store(entry: CacheEntry): void {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  /** Links a channel's id and slug tags while a cached channel response carries both, so evicted entries drop out. */
+  private channelAliases(): Map<string, Set<string>> {
+    const aliases = new Map<string, Set<string>>();
+    for (const entry of this.entries.values()) {
+      const linked = entry.tags.filter(isChannelTag);
+      if (linked.length < 2) {
+        continue;
+      }
+      for (const tag of linked) {
+        const tagAliases = aliases.get(tag) ?? new Set<string>();
+        linked.forEach((alias) => tagAliases.add(alias));
+        aliases.set(tag, tagAliases);
+      }
+    }
+    return aliases;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFromDisk();
+    }
+    return this.loaded;
+  }
+
+  private async readFromDisk(): Promise<void> {
+    if (!this.options.filePath) {
+      return;
+    }
+    let parsed: CacheFile;
+    try {
+      parsed = JSON.parse(await readFile(this.options.filePath, "utf8")) as CacheFile;
+    } catch {
+      return;
+    }
+    if (parsed.version !== 1 || !Array.isArray(parsed.entries)) {
+      return;
+    }
+    const now = this.now();
+    for (const entry of parsed.entries) {
+      if (entry.expiresAt > now) {
+        this.store(entry);
+      }
+    }
+  }
+
+  private schedulePersist(): void {
+    if (!this.options.filePath || this.persistTimer) {
+      return;
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      void this.persist().catch(() => undefined);
+    }, this.options.persistDelayMs ?? DEFAULT_PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  private async persist(): Promise<void> {
+    const filePath = this.options.filePath;
+    if (!filePath) {
+      return;
+    }
+    const now = this.now();
+    const file: CacheFile = {
+      version: 1,
+      entries: [...this.entries.values()].filter((entry) => entry.expiresAt > now),
+    };
+    await mkdir(dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(file), "utf8");
+    await rename(tempPath, filePath);
+  }
+}
+
+export interface ResponseValidators {
+  etag: string | null;
+  lastModified: string | null;
+  body: unknown;
+}
+
+export function conditionalRequestHeaders(validators: ResponseValidators | undefined): Record<string, string> {
+  if (!validators) {
+    return {};
+  }
+  return {
+    ...(validators.etag ? { "If-None-Match": validators.etag } : {}),
+    ...(validators.lastModified ? { "If-Modified-Since": validators.lastModified } : {}),
+  };
+}
+
+export class ValidatorStore {
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, ResponseValidators>();
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(url: string): ResponseValidators | undefined {
+    const validators = this.entries.get(url);
+    if (validators) {
+      this.entries.delete(url);
+      this.entries.set(url, validators);
+    }
+    return validators;
+  }
+
+  remember(url: string, headers: Headers, body: unknown): void {
+    const etag = headers.get("etag");
+    const lastModified = headers.get("last-modified");
+    this.entries.delete(url);
+    if (!etag && !lastModified) {
+      return;
+    }
+    this.entries.set(url, { etag, lastModified, body });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+}
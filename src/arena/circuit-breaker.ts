@@ -0,0 +1,87 @@
+import { ArenaCircuitOpenError } from "../errors.js";
+import type { ArenaCircuitBreakerStatus, ArenaCircuitState } from "./types.js";
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  now?: () => number;
+}
+
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly now: () => number;
+  private state: ArenaCircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAtMs: number | null = null;
+  private probeInFlight = false;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.failureThreshold = options.failureThreshold;
+    this.resetTimeoutMs = options.resetTimeoutMs;
+    this.now = options.now ?? Date.now;
+  }
+
+  isOpen(): boolean {
+    return this.state === "open";
+  }
+
+  beforeRequest(): void {
+    if (this.state === "open" && this.resetTimeoutElapsed()) {
+      this.state = "half_open";
+      this.probeInFlight = false;
+    }
+    if (this.state === "closed") {
+      return;
+    }
+    if (this.state === "half_open" && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return;
+    }
+    throw new ArenaCircuitOpenError({
+      consecutiveFailures: this.consecutiveFailures,
+      retryAfterSeconds: Math.max(1, Math.ceil(this.remainingOpenMs() / 1000)),
+    });
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAtMs = null;
+    this.probeInFlight = false;
+  }
+
+  releaseProbe(): void {
+    if (this.state === "half_open") {
+      this.probeInFlight = false;
+    }
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures += 1;
+    this.probeInFlight = false;
+    if (this.state === "half_open" || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = "open";
+      this.openedAtMs = this.now();
+    }
+  }
+
+  status(): ArenaCircuitBreakerStatus {
+    // Report the state the next request will see, so an idle server stops looking degraded once the timer elapses.
+    return {
+      state: this.state === "open" && this.resetTimeoutElapsed() ? "half_open" : this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAtMs !== null ? new Date(this.openedAtMs).toISOString() : null,
+      retryAt:
+        this.openedAtMs !== null ? new Date(this.openedAtMs + this.resetTimeoutMs).toISOString() : null,
+    };
+  }
+
+  private resetTimeoutElapsed(): boolean {
+    return this.openedAtMs !== null && this.now() - this.openedAtMs >= this.resetTimeoutMs;
+  }
+
+  private remainingOpenMs(): number {
+    return this.openedAtMs === null ? 0 : this.openedAtMs + this.resetTimeoutMs - this.now();
+  }
+}
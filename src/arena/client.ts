@@ -1,5 +1,12 @@
 import { clampPerPage, type ServerConfig } from "../config.js";
 import { ArenaApiError, isRetryableStatus } from "../errors.js";
+import { raceAbort } from "./abort.js";
+import {
+  ResponseCache,
+  ValidatorStore,
+  conditionalRequestHeaders,
+  writeInvalidationTags,
+} from "./cache.js";
 import {
   normalizeBlockFromV3,
   normalizeChannelFromV3,
@@ -9,11 +16,21 @@ import {
   normalizeSearchResponseV3,
   normalizeUserFromV3,
 } from "./normalize.js";
+import { CircuitBreaker } from "./circuit-breaker.js";
+import { RateLimitBucket } from "./rate-limit.js";
 import type {
+  ArenaCircuitBreakerStatus,
+  ArenaRateLimitStatus,
+  ArenaReadOptions,
+  ArenaRequestMetrics,
+  ArenaRequestPreview,
+  ArenaWriteRequest,
   BlockConnectionsParams,
   ChannelContentsParams,
   NormalizedBlock,
   NormalizedChannel,
+  NormalizedConnectable,
+  NormalizedConnectionResult,
   NormalizedSearchResult,
   NormalizedUser,
   PaginatedResult,
@@ -21,25 +38,29 @@ import type {
   UserContentsParams,
 } from "./types.js";
 
-interface RequestOptions {
+interface RequestOptions extends ArenaReadOptions {
   query?: Record<string, unknown>;
   body?: Record<string, unknown>;
   expectNoContent?: boolean;
+  signal?: AbortSignal;
 }
 
 interface ArenaClientDeps {
   fetchImpl?: typeof fetch;
   sleepMs?: (ms: number) => Promise<void>;
   random?: () => number;
+  cache?: ResponseCache | null;
+  validators?: ValidatorStore | null;
+  rateLimit?: RateLimitBucket | null;
+  circuitBreaker?: CircuitBreaker | null;
 }
 
-interface NormalizedConnectionResult {
-  id: number;
-  connectableId: number | null;
-  connectableType: string | null;
-  channelId: number | null;
-  createdAt: string | null;
-  raw: unknown;
+type FetchAttemptOutcome<T> = { done: true; value: T } | { done: false; retryDelayMs: number };
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
 }
 
 class ConcurrencyLimiter {
@@ -51,8 +72,9 @@ class ConcurrencyLimiter {
     this.max = max;
   }
 
-  async run<T>(fn: () => Promise<T>): Promise<T> {
-    await this.acquire();
+  async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    signal?.throwIfAborted();
+    await this.acquire(signal);
     try {
       return await fn();
     } finally {
@@ -60,16 +82,26 @@ class ConcurrencyLimiter {
     }
   }
 
-  private acquire(): Promise<void> {
+  private acquire(signal?: AbortSignal): Promise<void> {
     if (this.active < this.max) {
       this.active += 1;
       return Promise.resolve();
     }
-    return new Promise<void>((resolve) => {
-      this.queue.push(() => {
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(grant);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+        }
+        reject(signal?.reason);
+      };
+      const grant = () => {
+        signal?.removeEventListener("abort", onAbort);
         this.active += 1;
         resolve();
-      });
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(grant);
     });
   }
 
@@ -158,12 +190,99 @@ function mapSearchTypeToV2Kind(type: SearchParams["type"]): string | undefined {
   return "blocks";
 }
 
+function createResponseCache(config: ServerConfig): ResponseCache | null {
+  if (!config.arenaCacheEnabled) {
+    return null;
+  }
+  return new ResponseCache({
+    ttlMs: config.arenaCacheTtlMs,
+    maxEntries: config.arenaCacheMaxEntries,
+    filePath: config.arenaCacheFilePath,
+  });
+}
+
+function createValidatorStore(config: ServerConfig): ValidatorStore | null {
+  return config.arenaConditionalRequestsEnabled ? new ValidatorStore(config.arenaCacheMaxEntries) : null;
+}
+
+function createRateLimitBucket(
+  config: ServerConfig,
+  sleepMs: (ms: number) => Promise<void>,
+): RateLimitBucket | null {
+  return config.arenaRateLimitEnabled ? new RateLimitBucket({ sleepMs }) : null;
+}
+
+function createCircuitBreaker(config: ServerConfig): CircuitBreaker | null {
+  if (config.arenaCircuitBreakerThreshold <= 0) {
+    return null;
+  }
+  return new CircuitBreaker({
+    failureThreshold: config.arenaCircuitBreakerThreshold,
+    resetTimeoutMs: config.arenaCircuitBreakerResetMs,
+  });
+}
+
+export const arenaWriteRequests = {
+  createChannel: (body: Record<string, unknown>): ArenaWriteRequest => ({
+    method: "POST",
+    path: "/v3/channels",
+    body,
+  }),
+  updateChannel: (idOrSlug: string, body: Record<string, unknown>): ArenaWriteRequest => ({
+    method: "PUT",
+    path: `/v3/channels/${encodeURIComponent(idOrSlug)}`,
+    body,
+  }),
+  deleteChannel: (idOrSlug: string): ArenaWriteRequest => ({
+    method: "DELETE",
+    path: `/v3/channels/${encodeURIComponent(idOrSlug)}`,
+    body: null,
+  }),
+  createBlock: (body: Record<string, unknown>): ArenaWriteRequest => ({
+    method: "POST",
+    path: "/v3/blocks",
+    body,
+  }),
+  updateBlock: (id: number, body: Record<string, unknown>): ArenaWriteRequest => ({
+    method: "PUT",
+    path: `/v3/blocks/${id}`,
+    body,
+  }),
+  deleteBlock: (id: number): ArenaWriteRequest => ({
+    method: "DELETE",
+    path: `/v3/blocks/${id}`,
+    body: null,
+  }),
+  connectBlock: (body: Record<string, unknown>): ArenaWriteRequest => ({
+    method: "POST",
+    path: "/v3/connections",
+    body,
+  }),
+  disconnectConnection: (connectionId: number): ArenaWriteRequest => ({
+    method: "DELETE",
+    path: `/v3/connections/${connectionId}`,
+    body: null,
+  }),
+  moveConnection: (connectionId: number, body: Record<string, unknown>): ArenaWriteRequest => ({
+    method: "POST",
+    path: `/v3/connections/${connectionId}/move`,
+    body,
+  }),
+};
+
 export class ArenaClient {
   private readonly config: ServerConfig;
   private readonly limiter: ConcurrencyLimiter;
   private readonly fetchImpl: typeof fetch;
   private readonly sleepMs: (ms: number) => Promise<void>;
   private readonly random: () => number;
+  private readonly cache: ResponseCache | null;
+  private readonly validators: ValidatorStore | null;
+  private readonly rateLimit: RateLimitBucket | null;
+  private readonly circuitBreaker: CircuitBreaker | null;
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  private issuedRequests = 0;
+  private coalescedRequests = 0;
 
   constructor(config: ServerConfig, deps: ArenaClientDeps = {}) {
     this.config = config;
@@ -171,22 +290,33 @@ export class ArenaClient {
     this.sleepMs = deps.sleepMs ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
     this.random = deps.random ?? Math.random;
     this.limiter = new ConcurrencyLimiter(config.arenaMaxConcurrentRequests);
+    this.cache = deps.cache !== undefined ? deps.cache : createResponseCache(config);
+    this.validators = deps.validators !== undefined ? deps.validators : createValidatorStore(config);
+    this.rateLimit =
+      deps.rateLimit !== undefined ? deps.rateLimit : createRateLimitBucket(config, this.sleepMs);
+    this.circuitBreaker =
+      deps.circuitBreaker !== undefined ? deps.circuitBreaker : createCircuitBreaker(config);
   }
 
-  async getMe(): Promise<NormalizedUser> {
-    const payload = await this.requestJson<unknown>("GET", "/v3/me");
+  async getMe(signal?: AbortSignal): Promise<NormalizedUser> {
+    const payload = await this.requestJson<unknown>("GET", "/v3/me", { signal });
     return normalizeUserFromV3(payload);
   }
 
-  async getChannel(idOrSlug: string): Promise<NormalizedChannel> {
+  async getChannel(idOrSlug: string, signal?: AbortSignal, options: ArenaReadOptions = {}): Promise<NormalizedChannel> {
     const payload = await this.requestJson<unknown>(
       "GET",
       `/v3/channels/${encodeURIComponent(idOrSlug)}`,
+      { ...options, signal },
     );
     return normalizeChannelFromV3(payload);
   }
 
-  async getChannelContents(params: ChannelContentsParams): Promise<PaginatedResult<NormalizedBlock | NormalizedChannel>> {
+  async getChannelContents(
+    params: ChannelContentsParams,
+    signal?: AbortSignal,
+    options: ArenaReadOptions = {},
+  ): Promise<PaginatedResult<NormalizedBlock | NormalizedChannel>> {
     const payload = await this.requestJson<unknown>(
       "GET",
       `/v3/channels/${encodeURIComponent(params.idOrSlug)}/contents`,
@@ -197,18 +327,35 @@ export class ArenaClient {
           sort: params.sort ?? "created_at_desc",
           user_id: params.user_id,
         },
+        ...options,
+        signal,
       },
     );
     return normalizeConnectableListResponse(payload);
   }
 
-  async getBlock(id: number): Promise<NormalizedBlock> {
-    const payload = await this.requestJson<unknown>("GET", `/v3/blocks/${id}`);
+  async *iterateChannelContents(
+    params: ChannelContentsParams,
+    signal?: AbortSignal,
+  ): AsyncGenerator<PaginatedResult<NormalizedConnectable>, void, undefined> {
+    let page: number | null = params.page ?? 1;
+    while (page !== null) {
+      const result = await this.getChannelContents({ ...params, page }, signal);
+      yield result;
+      const { nextPage } = result.meta;
+      page = result.data.length > 0 && nextPage !== null && nextPage > page ? nextPage : null;
+    }
+  }
+
+  async getBlock(id: number, signal?: AbortSignal, options: ArenaReadOptions = {}): Promise<NormalizedBlock> {
+    const payload = await this.requestJson<unknown>("GET", `/v3/blocks/${id}`, { ...options, signal });
     return normalizeBlockFromV3(payload);
   }
 
   async getBlockConnections(
     params: BlockConnectionsParams,
+    signal?: AbortSignal,
+    options: ArenaReadOptions = {},
   ): Promise<PaginatedResult<NormalizedChannel>> {
     const payload = await this.requestJson<unknown>("GET", `/v3/blocks/${params.id}/connections`, {
       query: {
@@ -217,16 +364,28 @@ export class ArenaClient {
         sort: params.sort ?? "created_at_desc",
         filter: params.filter ?? "ALL",
       },
+      ...options,
+      signal,
     });
     return normalizeChannelListResponse(payload);
   }
 
-  async getUser(idOrSlug: string): Promise<NormalizedUser> {
-    const payload = await this.requestJson<unknown>("GET", `/v3/users/${encodeURIComponent(idOrSlug)}`);
+  async getConnection(connectionId: number, signal?: AbortSignal): Promise<NormalizedConnectionResult> {
+    const payload = await this.requestJson<unknown>("GET", `/v3/connections/${connectionId}`, { signal });
+    return this.normalizeConnectionResult(payload);
+  }
+
+  async getUser(idOrSlug: string, signal?: AbortSignal): Promise<NormalizedUser> {
+    const payload = await this.requestJson<unknown>("GET", `/v3/users/${encodeURIComponent(idOrSlug)}`, {
+      signal,
+    });
     return normalizeUserFromV3(payload);
   }
 
-  async getUserContents(params: UserContentsParams): Promise<PaginatedResult<NormalizedBlock | NormalizedChannel>> {
+  async getUserContents(
+    params: UserContentsParams,
+    signal?: AbortSignal,
+  ): Promise<PaginatedResult<NormalizedBlock | NormalizedChannel>> {
     const payload = await this.requestJson<unknown>(
       "GET",
       `/v3/users/${encodeURIComponent(params.idOrSlug)}/contents`,
@@ -237,14 +396,15 @@ export class ArenaClient {
           sort: params.sort ?? "created_at_desc",
           type: params.type,
         },
+        signal,
       },
     );
     return normalizeConnectableListResponse(payload);
   }
 
-  async search(params: SearchParams): Promise<NormalizedSearchResult> {
+  async search(params: SearchParams, signal?: AbortSignal): Promise<NormalizedSearchResult> {
     try {
-      const payload = await this.searchV3(params);
+      const payload = await this.searchV3(params, signal);
       return normalizeSearchResponseV3(payload);
     } catch (error) {
       if (
@@ -252,14 +412,14 @@ export class ArenaClient {
         error.status === 403 &&
         this.config.arenaEnableV2SearchFallback
       ) {
-        const fallbackPayload = await this.searchV2(params);
+        const fallbackPayload = await this.searchV2(params, signal);
         return normalizeSearchResponseV2(fallbackPayload);
       }
       throw error;
     }
   }
 
-  async searchV3(params: SearchParams): Promise<unknown> {
+  async searchV3(params: SearchParams, signal?: AbortSignal): Promise<unknown> {
     return this.requestJson<unknown>("GET", "/v3/search", {
       query: {
         query: params.query,
@@ -275,10 +435,11 @@ export class ArenaClient {
         channel_id: params.channel_id,
         ext: params.ext,
       },
+      signal,
     });
   }
 
-  async searchV2(params: SearchParams): Promise<unknown> {
+  async searchV2(params: SearchParams, signal?: AbortSignal): Promise<unknown> {
     return this.requestJson<unknown>("GET", "/v2/search", {
       query: {
         q: params.query,
@@ -286,40 +447,87 @@ export class ArenaClient {
         per: clampPerPage(params.per ?? this.config.arenaDefaultPerPage),
         kind: mapSearchTypeToV2Kind(params.type),
       },
+      signal,
     });
   }
 
   async createChannel(input: Record<string, unknown>): Promise<NormalizedChannel> {
-    const payload = await this.requestJson<unknown>("POST", "/v3/channels", { body: input });
+    const payload = await this.sendWrite<unknown>(arenaWriteRequests.createChannel(input));
+    return normalizeChannelFromV3(payload);
+  }
+
+  async updateChannel(idOrSlug: string, input: Record<string, unknown>): Promise<NormalizedChannel> {
+    const payload = await this.sendWrite<unknown>(arenaWriteRequests.updateChannel(idOrSlug, input));
     return normalizeChannelFromV3(payload);
   }
 
+  async deleteChannel(idOrSlug: string): Promise<void> {
+    await this.sendWrite<unknown>(arenaWriteRequests.deleteChannel(idOrSlug));
+  }
+
   async createBlock(input: Record<string, unknown>): Promise<NormalizedBlock> {
-    const payload = await this.requestJson<unknown>("POST", "/v3/blocks", { body: input });
+    const payload = await this.sendWrite<unknown>(arenaWriteRequests.createBlock(input));
     return normalizeBlockFromV3(payload);
   }
 
-  async connectBlock(input: Record<string, unknown>): Promise<NormalizedConnectionResult> {
-    const payload = await this.requestJson<unknown>("POST", "/v3/connections", { body: input });
-    return this.normalizeConnectionResult(payload);
+  async connectBlock(
+    input: Record<string, unknown>,
+  ): Promise<[NormalizedConnectionResult, ...NormalizedConnectionResult[]]> {
+    const payload = await this.sendWrite<unknown>(arenaWriteRequests.connectBlock(input));
+    const data = toRecord(payload).data;
+    const connections: unknown[] = Array.isArray(payload) ? payload : Array.isArray(data) ? data : [payload];
+    const [first = payload, ...rest] = connections;
+    return [
+      this.normalizeConnectionResult(first),
+      ...rest.map((connection) => this.normalizeConnectionResult(connection)),
+    ];
+  }
+
+  async updateBlock(id: number, input: Record<string, unknown>): Promise<NormalizedBlock> {
+    const payload = await this.sendWrite<unknown>(arenaWriteRequests.updateBlock(id, input));
+    return normalizeBlockFromV3(payload);
+  }
+
+  async deleteBlock(id: number): Promise<void> {
+    await this.sendWrite<unknown>(arenaWriteRequests.deleteBlock(id));
   }
 
   async disconnectConnection(connectionId: number): Promise<void> {
-    await this.requestJson<unknown>("DELETE", `/v3/connections/${connectionId}`, {
-      expectNoContent: true,
-    });
+    await this.sendWrite<unknown>(arenaWriteRequests.disconnectConnection(connectionId));
   }
 
   async moveConnection(
     connectionId: number,
     payloadInput: Record<string, unknown>,
   ): Promise<NormalizedConnectionResult> {
-    const payload = await this.requestJson<unknown>("POST", `/v3/connections/${connectionId}/move`, {
-      body: payloadInput,
-    });
+    const payload = await this.sendWrite<unknown>(
+      arenaWriteRequests.moveConnection(connectionId, payloadInput),
+    );
     return this.normalizeConnectionResult(payload);
   }
 
+  previewRequest(request: ArenaWriteRequest): ArenaRequestPreview {
+    return {
+      method: request.method,
+      url: `${this.config.arenaApiBaseUrl}${request.path}`,
+      headers: {
+        Authorization: "Bearer <redacted>",
+        Accept: "application/json",
+        ...(request.body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: request.body,
+    };
+  }
+
+  private async sendWrite<T>(request: ArenaWriteRequest): Promise<T> {
+    const payload = await this.requestJson<T>(request.method, request.path, {
+      body: request.body ?? undefined,
+      expectNoContent: request.method === "DELETE",
+    });
+    await this.cache?.invalidate(writeInvalidationTags(request, payload));
+    return payload;
+  }
+
   private normalizeConnectionResult(response: unknown): NormalizedConnectionResult {
     const record = toRecord(response);
     return {
@@ -327,96 +535,219 @@ export class ArenaClient {
       connectableId: typeof record.connectable_id === "number" ? record.connectable_id : null,
       connectableType: typeof record.connectable_type === "string" ? record.connectable_type : null,
       channelId: typeof record.channel_id === "number" ? record.channel_id : null,
+      position: typeof record.position === "number" ? record.position : null,
       createdAt: typeof record.created_at === "string" ? record.created_at : null,
       raw: response,
     };
   }
 
+  getRequestMetrics(): ArenaRequestMetrics {
+    return {
+      issuedRequests: this.issuedRequests,
+      coalescedRequests: this.coalescedRequests,
+      inFlightRequests: this.inFlight.size,
+    };
+  }
+
+  getRateLimitStatus(): ArenaRateLimitStatus | null {
+    return this.rateLimit?.status() ?? null;
+  }
+
+  getCircuitBreakerStatus(): ArenaCircuitBreakerStatus | null {
+    return this.circuitBreaker?.status() ?? null;
+  }
+
   private async requestJson<T>(
-    method: "GET" | "POST" | "DELETE",
+    method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE",
     path: string,
     options: RequestOptions = {},
   ): Promise<T> {
-    return this.limiter.run(async () => {
-      for (let attempt = 0; attempt <= this.config.arenaMaxRetries; ) {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), this.config.arenaApiTimeoutMs);
-        const relativePath = appendQuery(path, options.query);
-        const url = `${this.config.arenaApiBaseUrl}${relativePath}`;
-
-        try {
-          const response = await this.fetchImpl(url, {
-            method,
-            headers: {
-              Authorization: `Bearer ${this.config.arenaAccessToken}`,
-              Accept: "application/json",
-              ...(method === "POST" ? { "Content-Type": "application/json" } : {}),
-            },
-            body: method === "POST" ? JSON.stringify(options.body ?? {}) : undefined,
-            signal: controller.signal,
-          });
-
-          clearTimeout(timeout);
+    options.signal?.throwIfAborted();
+    if (method !== "GET") {
+      return this.fetchJson<T>(method, path, options);
+    }
+    const requestKey = `GET ${appendQuery(path, options.query)}`;
+    if (this.cache && !options.bypassCache) {
+      const cached = await this.cache.get(requestKey);
+      if (cached !== undefined) {
+        return cached as T;
+      }
+    }
 
-          if (options.expectNoContent && response.status === 204) {
-            return undefined as T;
+    let entry = this.inFlight.get(requestKey);
+    if (entry) {
+      this.coalescedRequests += 1;
+    } else {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        promise: this.fetchAndCache<T>(requestKey, path, { ...options, signal: controller.signal }).finally(() => {
+          if (this.inFlight.get(requestKey) === created) {
+            this.inFlight.delete(requestKey);
           }
+        }),
+        controller,
+        waiters: 0,
+      };
+      this.inFlight.set(requestKey, created);
+      entry = created;
+    }
+    return this.awaitInFlight<T>(requestKey, entry, options.signal);
+  }
 
-          const contentType = response.headers.get("content-type") ?? "";
-          let parsedBody: unknown = null;
-          if (response.status !== 204) {
-            if (contentType.includes("application/json")) {
-              parsedBody = await response.json().catch(() => null);
-            } else {
-              parsedBody = await response.text().catch(() => null);
-            }
-          }
+  private async awaitInFlight<T>(requestKey: string, entry: InFlightRequest, signal?: AbortSignal): Promise<T> {
+    entry.waiters += 1;
+    try {
+      return (await raceAbort(entry.promise, signal)) as T;
+    } finally {
+      entry.waiters -= 1;
+      if (signal?.aborted && entry.waiters === 0) {
+        if (this.inFlight.get(requestKey) === entry) {
+          this.inFlight.delete(requestKey);
+        }
+        entry.controller.abort(signal.reason);
+      }
+    }
+  }
 
-          if (!response.ok) {
-            const retryAfter = parseRetryAfterSeconds(response.headers.get("retry-after"));
-            const arenaError = new ArenaApiError({
-              message: `Are.na API request failed with ${response.status}`,
-              status: response.status,
-              responseBody: parsedBody,
-              retryAfterSeconds: retryAfter,
-              url,
-            });
-
-            if (isRetryableStatus(response.status) && attempt < this.config.arenaMaxRetries) {
-              const delay = computeRetryDelayMs({
-                attempt,
-                baseMs: this.config.arenaBackoffBaseMs,
-                retryAfterSeconds: retryAfter,
-                random: this.random,
-              });
-              attempt += 1;
-              await this.sleepMs(delay);
-              continue;
-            }
-            throw arenaError;
-          }
+  private async fetchAndCache<T>(requestKey: string, path: string, options: RequestOptions): Promise<T> {
+    const generation = this.cache?.generation;
+    const payload = await this.fetchJson<T>("GET", path, options);
+    await this.cache?.set(requestKey, path, payload, generation);
+    return payload;
+  }
 
-          return parsedBody as T;
-        } catch (error) {
-          clearTimeout(timeout);
-          if (error instanceof ArenaApiError) {
-            throw error;
-          }
+  private async fetchJson<T>(
+    method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE",
+    path: string,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const { signal } = options;
+    this.issuedRequests += 1;
+    for (let attempt = 0; attempt <= this.config.arenaMaxRetries; attempt += 1) {
+      signal?.throwIfAborted();
+      this.circuitBreaker?.beforeRequest();
+      try {
+        // Wait for rate-limit budget before taking a concurrency slot so throttled requests don't hold one.
+        await this.rateLimit?.acquire(signal);
+        const outcome = await this.limiter.run(() => this.fetchAttempt<T>(method, path, options, attempt), signal);
+        if (outcome.done) {
+          return outcome.value;
+        }
+        await raceAbort(this.sleepMs(outcome.retryDelayMs), signal);
+      } catch (error) {
+        if (signal?.aborted) {
+          this.circuitBreaker?.releaseProbe();
+        }
+        throw error;
+      }
+    }
+    throw new Error("Request retry loop ended unexpectedly.");
+  }
 
-          if (attempt >= this.config.arenaMaxRetries) {
-            throw error;
-          }
-          const delay = computeRetryDelayMs({
+  private async fetchAttempt<T>(
+    method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE",
+    path: string,
+    options: RequestOptions,
+    attempt: number,
+  ): Promise<FetchAttemptOutcome<T>> {
+    const sendsBody = method === "POST" || method === "PUT" || method === "PATCH";
+    const { signal } = options;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.arenaApiTimeoutMs);
+    const relativePath = appendQuery(path, options.query);
+    const url = `${this.config.arenaApiBaseUrl}${relativePath}`;
+    const validators = method === "GET" ? this.validators?.get(relativePath) : undefined;
+
+    try {
+      const response = await this.fetchImpl(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.config.arenaAccessToken}`,
+          Accept: "application/json",
+          ...(sendsBody ? { "Content-Type": "application/json" } : {}),
+          ...conditionalRequestHeaders(validators),
+        },
+        body: sendsBody ? JSON.stringify(options.body ?? {}) : undefined,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+      });
+
+      clearTimeout(timeout);
+      this.rateLimit?.observe(response.headers);
+      if (response.status >= 500) {
+        this.circuitBreaker?.recordFailure();
+      } else {
+        this.circuitBreaker?.recordSuccess();
+      }
+
+      if (options.expectNoContent && response.status === 204) {
+        return { done: true, value: undefined as T };
+      }
+
+      if (response.status === 304 && validators) {
+        return { done: true, value: validators.body as T };
+      }
+
+      const contentType = response.headers.get("content-type") ?? "";
+      let parsedBody: unknown = null;
+      if (response.status !== 204) {
+        if (contentType.includes("application/json")) {
+          parsedBody = await response.json().catch(() => null);
+        } else {
+          parsedBody = await response.text().catch(() => null);
+        }
+      }
+      signal?.throwIfAborted();
+
+      if (!response.ok) {
+        const retryAfter = parseRetryAfterSeconds(response.headers.get("retry-after"));
+        if (response.status === 429) {
+          this.rateLimit?.block(retryAfter);
+        }
+        const arenaError = new ArenaApiError({
+          message: `Are.na API request failed with ${response.status}`,
+          status: response.status,
+          responseBody: parsedBody,
+          retryAfterSeconds: retryAfter,
+          url,
+        });
+
+        if (
+          isRetryableStatus(response.status) &&
+          attempt < this.config.arenaMaxRetries &&
+          !this.circuitBreaker?.isOpen()
+        ) {
+          const retryDelayMs = computeRetryDelayMs({
             attempt,
             baseMs: this.config.arenaBackoffBaseMs,
-            retryAfterSeconds: null,
+            retryAfterSeconds: retryAfter,
             random: this.random,
           });
-          attempt += 1;
-          await this.sleepMs(delay);
+          return { done: false, retryDelayMs };
         }
+        throw arenaError;
       }
-      throw new Error("Request retry loop ended unexpectedly.");
-    });
+
+      if (method === "GET") {
+        this.validators?.remember(relativePath, response.headers, parsedBody);
+      }
+      return { done: true, value: parsedBody as T };
+    } catch (error) {
+      clearTimeout(timeout);
+      if (signal?.aborted || error instanceof ArenaApiError) {
+        throw error;
+      }
+
+      this.circuitBreaker?.recordFailure();
+      if (attempt >= this.config.arenaMaxRetries || this.circuitBreaker?.isOpen()) {
+        throw error;
+      }
+      const retryDelayMs = computeRetryDelayMs({
+        attempt,
+        baseMs: this.config.arenaBackoffBaseMs,
+        retryAfterSeconds: null,
+        random: this.random,
+      });
+      return { done: false, retryDelayMs };
+    }
   }
 }
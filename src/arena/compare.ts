@@ -0,0 +1,146 @@
+import type {
+  ChannelComparisonResult,
+  ChannelContentsSnapshot,
+  ChannelPairOverlap,
+  NormalizedBlock,
+  SharedBlock,
+  SharedSourceUrl,
+} from "./types.js";
+
+const TRACKING_PARAM_PATTERN = /^(utm_[a-z]+|fbclid|gclid)$/i;
+
+export function normalizeSourceUrl(value: string): string | null {
+  const trimmed = value.trim();
+  if (trimmed.length === 0) {
+    return null;
+  }
+  try {
+    const parsed = new URL(trimmed);
+    parsed.hash = "";
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, "");
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (TRACKING_PARAM_PATTERN.test(key)) {
+        parsed.searchParams.delete(key);
+      }
+    }
+    if (parsed.pathname.length > 1) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+    }
+    return parsed.toString();
+  } catch {
+    return trimmed;
+  }
+}
+
+function blockSourceUrl(block: NormalizedBlock): string | null {
+  return block.sourceUrl ?? block.embed?.sourceUrl ?? null;
+}
+
+function roundRatio(numerator: number, denominator: number): number {
+  if (denominator === 0) {
+    return 0;
+  }
+  return Math.round((numerator / denominator) * 10_000) / 10_000;
+}
+
+function intersectionSize(left: Set<number>, right: Set<number>): number {
+  let count = 0;
+  for (const value of left) {
+    if (right.has(value)) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+export function compareChannelSnapshots(snapshots: ChannelContentsSnapshot[]): ChannelComparisonResult {
+  const blockIdsByChannel = new Map<number, Set<number>>();
+  const urlsByChannel = new Map<number, Set<string>>();
+  const blocksById = new Map<number, SharedBlock>();
+  const urlIndex = new Map<string, SharedSourceUrl>();
+
+  for (const { channel, contents } of snapshots) {
+    const blockIds = new Set<number>();
+    const urls = new Set<string>();
+    for (const item of contents) {
+      if (item.type === "Channel") {
+        continue;
+      }
+      blockIds.add(item.id);
+      const entry = blocksById.get(item.id) ?? {
+        id: item.id,
+        title: item.title,
+        type: item.type,
+        sourceUrl: blockSourceUrl(item),
+        channelIds: [],
+      };
+      if (!entry.channelIds.includes(channel.id)) {
+        entry.channelIds.push(channel.id);
+      }
+      blocksById.set(item.id, entry);
+
+      const rawUrl = blockSourceUrl(item);
+      const url = rawUrl ? normalizeSourceUrl(rawUrl) : null;
+      if (!url) {
+        continue;
+      }
+      urls.add(url);
+      const urlEntry = urlIndex.get(url) ?? { url, blockIds: [], channelIds: [] };
+      if (!urlEntry.blockIds.includes(item.id)) {
+        urlEntry.blockIds.push(item.id);
+      }
+      if (!urlEntry.channelIds.includes(channel.id)) {
+        urlEntry.channelIds.push(channel.id);
+      }
+      urlIndex.set(url, urlEntry);
+    }
+    blockIdsByChannel.set(channel.id, blockIds);
+    urlsByChannel.set(channel.id, urls);
+  }
+
+  const sharedBlocks = [...blocksById.values()].filter((block) => block.channelIds.length > 1);
+  const commonBlockIds = sharedBlocks
+    .filter((block) => block.channelIds.length === snapshots.length)
+    .map((block) => block.id);
+  const sharedSourceUrls = [...urlIndex.values()].filter((entry) => entry.channelIds.length > 1);
+
+  const pairs: ChannelPairOverlap[] = [];
+  for (let leftIndex = 0; leftIndex < snapshots.length; leftIndex += 1) {
+    for (let rightIndex = leftIndex + 1; rightIndex < snapshots.length; rightIndex += 1) {
+      const leftId = snapshots[leftIndex]?.channel.id ?? 0;
+      const rightId = snapshots[rightIndex]?.channel.id ?? 0;
+      const leftBlocks = blockIdsByChannel.get(leftId) ?? new Set<number>();
+      const rightBlocks = blockIdsByChannel.get(rightId) ?? new Set<number>();
+      const shared = intersectionSize(leftBlocks, rightBlocks);
+      const union = leftBlocks.size + rightBlocks.size - shared;
+      const leftUrls = urlsByChannel.get(leftId) ?? new Set<string>();
+      const rightUrls = urlsByChannel.get(rightId) ?? new Set<string>();
+      pairs.push({
+        channelIds: [leftId, rightId],
+        sharedBlockCount: shared,
+        unionBlockCount: union,
+        jaccard: roundRatio(shared, union),
+        sharedSourceUrlCount: [...leftUrls].filter((url) => rightUrls.has(url)).length,
+      });
+    }
+  }
+
+  return {
+    channels: snapshots.map(({ channel, truncated }) => {
+      const blockIds = blockIdsByChannel.get(channel.id) ?? new Set<number>();
+      return {
+        channelId: channel.id,
+        slug: channel.slug,
+        title: channel.title,
+        blockCount: blockIds.size,
+        uniqueBlockIds: [...blockIds].filter((id) => blocksById.get(id)?.channelIds.length === 1),
+        truncated,
+      };
+    }),
+    commonBlockIds,
+    sharedBlocks,
+    sharedSourceUrls,
+    pairs,
+    jaccard: roundRatio(commonBlockIds.length, blocksById.size),
+  };
+}
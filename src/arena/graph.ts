@@ -0,0 +1,380 @@
+import { toUserFacingError } from "../errors.js";
+import type { ArenaClient } from "./client.js";
+import type {
+  GraphCrawlParams,
+  GraphCrawlResult,
+  GraphEdge,
+  GraphExpansionFailure,
+  GraphNode,
+  GraphNodeType,
+  GraphPathParams,
+  GraphPathResult,
+  NormalizedConnectable,
+  NormalizedEmbeddedUser,
+} from "./types.js";
+
+export type GraphClient = Pick<ArenaClient, "getChannelContents" | "getBlockConnections">;
+
+export interface GraphRunOptions {
+  signal?: AbortSignal;
+  onExpansion?: (completedExpansions: number) => void;
+}
+
+export interface GraphExpansion {
+  neighbors: NormalizedConnectable[];
+  edges: GraphEdge[];
+}
+
+export function graphNodeKey(type: GraphNodeType, id: number): string {
+  return `${type.toLowerCase()}:${id}`;
+}
+
+export function connectableNodeKey(connectable: NormalizedConnectable): string {
+  return graphNodeKey(connectable.type === "Channel" ? "Channel" : "Block", connectable.id);
+}
+
+export function toGraphNode(connectable: NormalizedConnectable, depth: number): GraphNode {
+  if (connectable.type === "Channel") {
+    return {
+      key: connectableNodeKey(connectable),
+      type: "Channel",
+      id: connectable.id,
+      title: connectable.title,
+      slug: connectable.slug,
+      blockType: null,
+      depth,
+    };
+  }
+  return {
+    key: connectableNodeKey(connectable),
+    type: "Block",
+    id: connectable.id,
+    title: connectable.title ?? `${connectable.type} block ${connectable.id}`,
+    slug: null,
+    blockType: connectable.type,
+    depth,
+  };
+}
+
+function toUserGraphNode(user: NormalizedEmbeddedUser, depth: number): GraphNode {
+  return {
+    key: graphNodeKey("User", user.id),
+    type: "User",
+    id: user.id,
+    title: user.name,
+    slug: user.slug,
+    blockType: null,
+    depth,
+  };
+}
+
+function edgeKey(edge: GraphEdge): string {
+  return `${edge.source}->${edge.target}:${edge.kind}`;
+}
+
+export async function expandGraphNode(
+  client: GraphClient,
+  connectable: NormalizedConnectable,
+  perNode: number,
+  signal?: AbortSignal,
+): Promise<GraphExpansion> {
+  const sourceKey = connectableNodeKey(connectable);
+  if (connectable.type === "Channel") {
+    const contents = await client.getChannelContents(
+      {
+        idOrSlug: String(connectable.id),
+        page: 1,
+        per: perNode,
+      },
+      signal,
+    );
+    return {
+      neighbors: contents.data,
+      edges: contents.data.map((item) => ({
+        source: sourceKey,
+        target: connectableNodeKey(item),
+        kind: "contains",
+        connection: item.connection,
+      })),
+    };
+  }
+
+  const connections = await client.getBlockConnections(
+    {
+      id: connectable.id,
+      page: 1,
+      per: perNode,
+    },
+    signal,
+  );
+  return {
+    neighbors: connections.data,
+    edges: connections.data.map((channel) => ({
+      source: connectableNodeKey(channel),
+      target: sourceKey,
+      kind: "contains",
+      connection: channel.connection,
+    })),
+  };
+}
+
+export async function crawlGraph(
+  client: GraphClient,
+  params: GraphCrawlParams,
+  options: GraphRunOptions = {},
+): Promise<GraphCrawlResult> {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  const failures: GraphExpansionFailure[] = [];
+  let truncated = false;
+
+  const addNode = (node: GraphNode): boolean => {
+    if (nodes.has(node.key)) {
+      return true;
+    }
+    if (nodes.size >= params.maxNodes) {
+      truncated = true;
+      return false;
+    }
+    nodes.set(node.key, node);
+    return true;
+  };
+
+  const addEdge = (edge: GraphEdge): void => {
+    const key = edgeKey(edge);
+    const existing = edges.get(key);
+    if (!existing) {
+      edges.set(key, edge);
+      return;
+    }
+    if (!existing.connection && edge.connection) {
+      existing.connection = edge.connection;
+    }
+  };
+
+  const addUser = (connectable: NormalizedConnectable, depth: number): void => {
+    const user = connectable.type === "Channel" ? connectable.owner : connectable.user;
+    if (!user || !addNode(toUserGraphNode(user, depth))) {
+      return;
+    }
+    addEdge({
+      source: graphNodeKey("User", user.id),
+      target: connectableNodeKey(connectable),
+      kind: connectable.type === "Channel" ? "owns" : "created",
+      connection: null,
+    });
+  };
+
+  const addConnectable = (connectable: NormalizedConnectable, depth: number): boolean => {
+    if (!addNode(toGraphNode(connectable, depth))) {
+      return false;
+    }
+    if (params.includeUsers) {
+      addUser(connectable, depth);
+    }
+    return true;
+  };
+
+  const rootKey = connectableNodeKey(params.root);
+  addConnectable(params.root, 0);
+
+  let frontier: NormalizedConnectable[] = [params.root];
+  let expandedCount = 0;
+  let completedExpansions = 0;
+  let depthReached = 0;
+
+  for (let depth = 0; depth < params.maxDepth && frontier.length > 0 && !truncated; depth += 1) {
+    const expansions = await Promise.all(
+      frontier.map(async (connectable) => {
+        try {
+          const expansion = await expandGraphNode(client, connectable, params.perNode, options.signal);
+          return { connectable, expansion, error: null };
+        } catch (error) {
+          return { connectable, expansion: null, error };
+        } finally {
+          completedExpansions += 1;
+          options.onExpansion?.(completedExpansions);
+        }
+      }),
+    );
+    options.signal?.throwIfAborted();
+
+    const nextFrontier: NormalizedConnectable[] = [];
+    for (const { connectable, expansion, error } of expansions) {
+      const sourceKey = connectableNodeKey(connectable);
+      if (!expansion) {
+        failures.push({
+          node: sourceKey,
+          message: toUserFacingError(error, { operation: "crawl_graph", target: sourceKey }),
+        });
+        continue;
+      }
+      expandedCount += 1;
+      expansion.neighbors.forEach((neighbor, index) => {
+        const isNew = !nodes.has(connectableNodeKey(neighbor));
+        if (!addConnectable(neighbor, depth + 1)) {
+          return;
+        }
+        const edge = expansion.edges[index];
+        if (edge) {
+          addEdge(edge);
+        }
+        if (isNew) {
+          nextFrontier.push(neighbor);
+        }
+      });
+    }
+
+    depthReached = depth + 1;
+    frontier = nextFrontier;
+  }
+
+  return {
+    root: rootKey,
+    nodes: [...nodes.values()],
+    edges: [...edges.values()],
+    expandedCount,
+    depthReached,
+    truncated,
+    failures,
+  };
+}
+
+interface PathVisit {
+  connectable: NormalizedConnectable;
+  parent: string | null;
+  edge: GraphEdge | null;
+}
+
+function collectChain(visited: Map<string, PathVisit>, fromKey: string): PathVisit[] {
+  const chain: PathVisit[] = [];
+  let key: string | null = fromKey;
+  while (key !== null) {
+    const visit = visited.get(key);
+    if (!visit) {
+      break;
+    }
+    chain.push(visit);
+    key = visit.parent;
+  }
+  return chain;
+}
+
+export async function findGraphPath(
+  client: GraphClient,
+  params: GraphPathParams,
+  options: GraphRunOptions = {},
+): Promise<GraphPathResult> {
+  const sourceKey = connectableNodeKey(params.source);
+  const targetKey = connectableNodeKey(params.target);
+  const failures: GraphExpansionFailure[] = [];
+  const forward = new Map<string, PathVisit>([
+    [sourceKey, { connectable: params.source, parent: null, edge: null }],
+  ]);
+  const backward = new Map<string, PathVisit>([
+    [targetKey, { connectable: params.target, parent: null, edge: null }],
+  ]);
+
+  const buildResult = (meetKey: string | null, expandedCount: number, budgetExhausted: boolean) => {
+    if (meetKey === null) {
+      return {
+        source: sourceKey,
+        target: targetKey,
+        found: false,
+        nodes: [],
+        edges: [],
+        expandedCount,
+        budgetExhausted,
+        failures,
+      };
+    }
+    const head = collectChain(forward, meetKey).reverse();
+    const tail = collectChain(backward, meetKey);
+    const chain = [...head, ...tail.slice(1)];
+    return {
+      source: sourceKey,
+      target: targetKey,
+      found: true,
+      nodes: chain.map((visit, index) => toGraphNode(visit.connectable, index)),
+      edges: [...head, ...tail]
+        .map((visit) => visit.edge)
+        .filter((edge): edge is GraphEdge => edge !== null),
+      expandedCount,
+      budgetExhausted,
+      failures,
+    };
+  };
+
+  if (sourceKey === targetKey) {
+    return buildResult(sourceKey, 0, false);
+  }
+
+  let forwardFrontier: NormalizedConnectable[] = [params.source];
+  let backwardFrontier: NormalizedConnectable[] = [params.target];
+  let hops = 0;
+  let expandedCount = 0;
+  let completedExpansions = 0;
+
+  while (forwardFrontier.length > 0 && backwardFrontier.length > 0 && hops < params.maxDepth) {
+    const expandForward = forwardFrontier.length <= backwardFrontier.length;
+    const visited = expandForward ? forward : backward;
+    const opposite = expandForward ? backward : forward;
+    const remainingBudget = params.maxExpansions - expandedCount;
+    if (remainingBudget <= 0) {
+      return buildResult(null, expandedCount, true);
+    }
+    const frontier = (expandForward ? forwardFrontier : backwardFrontier).slice(0, remainingBudget);
+
+    const expansions = await Promise.all(
+      frontier.map(async (connectable) => {
+        try {
+          const expansion = await expandGraphNode(client, connectable, params.perNode, options.signal);
+          return { connectable, expansion, error: null };
+        } catch (error) {
+          return { connectable, expansion: null, error };
+        } finally {
+          completedExpansions += 1;
+          options.onExpansion?.(completedExpansions);
+        }
+      }),
+    );
+    options.signal?.throwIfAborted();
+    expandedCount += frontier.length;
+    hops += 1;
+
+    const nextFrontier: NormalizedConnectable[] = [];
+    for (const { connectable, expansion, error } of expansions) {
+      const parentKey = connectableNodeKey(connectable);
+      if (!expansion) {
+        failures.push({
+          node: parentKey,
+          message: toUserFacingError(error, { operation: "find_path", target: parentKey }),
+        });
+        continue;
+      }
+      for (const [index, neighbor] of expansion.neighbors.entries()) {
+        const neighborKey = connectableNodeKey(neighbor);
+        if (visited.has(neighborKey)) {
+          continue;
+        }
+        visited.set(neighborKey, {
+          connectable: neighbor,
+          parent: parentKey,
+          edge: expansion.edges[index] ?? null,
+        });
+        if (opposite.has(neighborKey)) {
+          return buildResult(neighborKey, expandedCount, false);
+        }
+        nextFrontier.push(neighbor);
+      }
+    }
+
+    if (expandForward) {
+      forwardFrontier = nextFrontier;
+    } else {
+      backwardFrontier = nextFrontier;
+    }
+  }
+
+  return buildResult(null, expandedCount, expandedCount >= params.maxExpansions);
+}
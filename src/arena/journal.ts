@@ -0,0 +1,263 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { toUserFacingError } from "../errors.js";
+import { arenaWriteRequests, type ArenaClient } from "./client.js";
+import type {
+  ArenaWriteRequest,
+  MoveConnectionMovement,
+  WriteJournalEntry,
+  WriteJournalIds,
+  WriteJournalRecord,
+  WriteUndoAction,
+  WriteUndoResult,
+} from "./types.js";
+
+export type UndoClient = Pick<
+  ArenaClient,
+  "deleteChannel" | "deleteBlock" | "disconnectConnection" | "moveConnection" | "previewRequest"
+>;
+
+export const EMPTY_JOURNAL_IDS: WriteJournalIds = { channelId: null, blockId: null, connectionId: null };
+
+const RELATIVE_MOVEMENTS: ReadonlySet<MoveConnectionMovement> = new Set(["move_up", "move_down"]);
+
+export async function lookupPreviousPosition(
+  client: Pick<ArenaClient, "getConnection">,
+  connectionId: number,
+  movement: MoveConnectionMovement,
+): Promise<number | null> {
+  if (RELATIVE_MOVEMENTS.has(movement)) {
+    return null;
+  }
+  try {
+    return (await client.getConnection(connectionId)).position;
+  } catch {
+    return null;
+  }
+}
+
+export function planWriteUndo(
+  operation: string,
+  input: Record<string, unknown>,
+  ids: WriteJournalIds,
+  previousPosition: number | null = null,
+): WriteUndoAction | null {
+  switch (operation) {
+    case "create_channel":
+      return ids.channelId !== null ? { kind: "delete_channel", channelId: ids.channelId } : null;
+    case "create_block":
+      return ids.blockId !== null ? { kind: "delete_block", blockId: ids.blockId } : null;
+    case "connect_block":
+      return ids.connectionId !== null
+        ? { kind: "disconnect_connection", connectionId: ids.connectionId }
+        : null;
+    case "move_connection":
+      if (ids.connectionId === null) {
+        return null;
+      }
+      if (input.movement === "move_up") {
+        return { kind: "move_connection", connectionId: ids.connectionId, movement: "move_down" };
+      }
+      if (input.movement === "move_down") {
+        return { kind: "move_connection", connectionId: ids.connectionId, movement: "move_up" };
+      }
+      return previousPosition !== null
+        ? { kind: "move_connection", connectionId: ids.connectionId, movement: "insert_at", position: previousPosition }
+        : null;
+    default:
+      return null;
+  }
+}
+
+export function describeMissingUndo(entry: WriteJournalEntry): string {
+  switch (entry.operation) {
+    case "delete_channel":
+    case "delete_block":
+      return "Deleted channels and blocks cannot be restored.";
+    case "disconnect_connection":
+      return "The block and channel of a removed connection are not recorded, so it cannot be reconnected.";
+    case "move_connection":
+      return "The connection's original position was not recorded, so it cannot be moved back.";
+    case "update_channel":
+    case "update_block":
+      return "Previous field values were not recorded.";
+    default:
+      return "No undo is available for this operation.";
+  }
+}
+
+export function describeUndoRemoval(action: WriteUndoAction): string | null {
+  switch (action.kind) {
+    case "delete_channel":
+      return `delete channel ${action.channelId}`;
+    case "delete_block":
+      return `delete block ${action.blockId}`;
+    case "disconnect_connection":
+      return `disconnect connection ${action.connectionId}`;
+    case "move_connection":
+      return null;
+  }
+}
+
+function undoMovePayload(
+  action: Extract<WriteUndoAction, { kind: "move_connection" }>,
+): Record<string, unknown> {
+  return action.position !== undefined
+    ? { movement: action.movement, position: action.position }
+    : { movement: action.movement };
+}
+
+export function undoActionRequest(action: WriteUndoAction): ArenaWriteRequest {
+  switch (action.kind) {
+    case "delete_channel":
+      return arenaWriteRequests.deleteChannel(String(action.channelId));
+    case "delete_block":
+      return arenaWriteRequests.deleteBlock(action.blockId);
+    case "disconnect_connection":
+      return arenaWriteRequests.disconnectConnection(action.connectionId);
+    case "move_connection":
+      return arenaWriteRequests.moveConnection(action.connectionId, undoMovePayload(action));
+  }
+}
+
+export async function executeUndoAction(client: UndoClient, action: WriteUndoAction): Promise<void> {
+  switch (action.kind) {
+    case "delete_channel":
+      await client.deleteChannel(String(action.channelId));
+      return;
+    case "delete_block":
+      await client.deleteBlock(action.blockId);
+      return;
+    case "disconnect_connection":
+      await client.disconnectConnection(action.connectionId);
+      return;
+    case "move_connection":
+      await client.moveConnection(action.connectionId, undoMovePayload(action));
+      return;
+  }
+}
+
+function parseRecord(line: string): WriteJournalRecord | null {
+  try {
+    const parsed = JSON.parse(line) as Partial<WriteJournalRecord> | null;
+    if (parsed && (parsed.kind === "write" || parsed.kind === "undo") && typeof parsed.id === "string") {
+      return parsed as WriteJournalRecord;
+    }
+  } catch {
+    return null;
+  }
+  return null;
+}
+
+export class WriteJournal {
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async recordWrite(write: {
+    operation: string;
+    input: Record<string, unknown>;
+    ids: WriteJournalIds;
+    previousPosition?: number | null;
+  }): Promise<WriteJournalEntry> {
+    const entry: WriteJournalEntry = {
+      kind: "write",
+      id: randomUUID(),
+      recordedAt: new Date().toISOString(),
+      operation: write.operation,
+      input: write.input,
+      ids: write.ids,
+      undo: planWriteUndo(write.operation, write.input, write.ids, write.previousPosition ?? null),
+    };
+    await this.appendRecord(entry);
+    return entry;
+  }
+
+  async recordUndo(entryId: string, reverted: boolean): Promise<void> {
+    await this.appendRecord({
+      kind: "undo",
+      id: randomUUID(),
+      recordedAt: new Date().toISOString(),
+      entryId,
+      reverted,
+    });
+  }
+
+  async listUndoable(limit: number): Promise<WriteJournalEntry[]> {
+    const records = await this.readRecords();
+    const handled = new Set(
+      records.filter((record) => record.kind === "undo").map((record) => record.entryId),
+    );
+    return records
+      .filter((record): record is WriteJournalEntry => record.kind === "write" && !handled.has(record.id))
+      .slice(-limit)
+      .reverse();
+  }
+
+  private async readRecords(): Promise<WriteJournalRecord[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    return raw
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map(parseRecord)
+      .filter((record): record is WriteJournalRecord => record !== null);
+  }
+
+  private async appendRecord(record: WriteJournalRecord): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(record)}\n`, "utf8");
+  }
+}
+
+export async function undoLastWrites(
+  client: UndoClient,
+  journal: WriteJournal,
+  params: { entries: WriteJournalEntry[]; dryRun: boolean },
+): Promise<WriteUndoResult[]> {
+  const results: WriteUndoResult[] = [];
+
+  for (const entry of params.entries) {
+    if (!entry.undo) {
+      if (!params.dryRun) {
+        await journal.recordUndo(entry.id, false);
+      }
+      results.push({ entry, status: "not_reversible", request: null, error: describeMissingUndo(entry) });
+      continue;
+    }
+    if (params.dryRun) {
+      results.push({
+        entry,
+        status: "dry_run",
+        request: client.previewRequest(undoActionRequest(entry.undo)),
+        error: null,
+      });
+      continue;
+    }
+    try {
+      await executeUndoAction(client, entry.undo);
+      await journal.recordUndo(entry.id, true);
+      results.push({ entry, status: "undone", request: null, error: null });
+    } catch (error) {
+      // Mark the entry handled so later calls move on to older writes instead of retrying this one forever.
+      await journal.recordUndo(entry.id, false);
+      results.push({
+        entry,
+        status: "failed",
+        request: null,
+        error: toUserFacingError(error, { operation: `undo ${entry.operation}`, target: entry.id }),
+      });
+    }
+  }
+  return results;
+}
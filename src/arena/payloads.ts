@@ -3,6 +3,8 @@ import type {
   CreateBlockInput,
   CreateChannelInput,
   MoveConnectionInput,
+  UpdateBlockInput,
+  UpdateChannelInput,
 } from "./types.js";
 
 function assertChannelIds(channelIds: number[]): void {
@@ -38,6 +40,26 @@ export function buildCreateChannelPayload(input: CreateChannelInput): Record<str
   return payload;
 }
 
+export function buildUpdateChannelPayload(input: UpdateChannelInput): Record<string, unknown> {
+  const payload: Record<string, unknown> = {};
+  if (input.title !== undefined) payload.title = input.title;
+  if (input.visibility !== undefined) payload.visibility = input.visibility;
+  if (input.description !== undefined) payload.description = input.description;
+
+  if (Object.keys(payload).length === 0) {
+    throw new Error("Provide at least one field to update: title, visibility, or description.");
+  }
+  return payload;
+}
+
+export function assertDeleteConfirmation(channelSlug: string, confirmSlug: string): void {
+  if (confirmSlug.trim() !== channelSlug) {
+    throw new Error(
+      `Deletion not confirmed: confirm_slug must exactly match the channel slug "${channelSlug}".`,
+    );
+  }
+}
+
 export function buildCreateBlockPayload(input: CreateBlockInput): Record<string, unknown> {
   assertChannelIds(input.channel_ids);
 
@@ -64,6 +86,32 @@ export function buildCreateBlockPayload(input: CreateBlockInput): Record<string,
   return payload;
 }
 
+export function buildUpdateBlockPayload(input: UpdateBlockInput): Record<string, unknown> {
+  if (input.original_source_url !== undefined && looksLikeLocalFilePath(input.original_source_url)) {
+    throw new Error(
+      "Local file paths are not supported by this server. Provide a public URL in `original_source_url` instead.",
+    );
+  }
+
+  const payload: Record<string, unknown> = {};
+
+  if (input.title !== undefined) payload.title = input.title;
+  if (input.description !== undefined) payload.description = input.description;
+  if (input.content !== undefined) payload.content = input.content;
+  if (input.alt_text !== undefined) payload.alt_text = input.alt_text;
+  if (input.original_source_url !== undefined) payload.original_source_url = input.original_source_url;
+  if (input.original_source_title !== undefined) {
+    payload.original_source_title = input.original_source_title;
+  }
+
+  if (Object.keys(payload).length === 0) {
+    throw new Error(
+      "Provide at least one field to update: title, description, content, alt_text, original_source_url, or original_source_title.",
+    );
+  }
+  return payload;
+}
+
 export function buildConnectBlockPayload(input: ConnectBlockInput): Record<string, unknown> {
   assertChannelIds(input.channel_ids);
   const payload: Record<string, unknown> = {
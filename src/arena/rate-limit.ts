@@ -0,0 +1,103 @@
+import { raceAbort } from "./abort.js";
+import type { ArenaRateLimitStatus } from "./types.js";
+
+export interface RateLimitBucketOptions {
+  now?: () => number;
+  sleepMs?: (ms: number) => Promise<void>;
+  defaultWindowMs?: number;
+}
+
+const DEFAULT_WINDOW_MS = 60_000;
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+function readHeader(headers: Headers, name: string): string | null {
+  return headers.get(`x-ratelimit-${name}`) ?? headers.get(`ratelimit-${name}`);
+}
+
+function parseCount(value: string | null): number | null {
+  if (value === null) {
+    return null;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+export function parseRateLimitReset(value: string | null, nowMs: number): number | null {
+  const seconds = parseCount(value);
+  if (seconds === null) {
+    return null;
+  }
+  return seconds >= EPOCH_SECONDS_THRESHOLD ? seconds * 1000 : nowMs + seconds * 1000;
+}
+
+export class RateLimitBucket {
+  private readonly now: () => number;
+  private readonly sleepMs: (ms: number) => Promise<void>;
+  private readonly defaultWindowMs: number;
+  private limit: number | null = null;
+  private tokens: number | null = null;
+  private resetAtMs: number | null = null;
+
+  constructor(options: RateLimitBucketOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.sleepMs = options.sleepMs ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.defaultWindowMs = options.defaultWindowMs ?? DEFAULT_WINDOW_MS;
+  }
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+      this.refill();
+      if (this.tokens === null || this.tokens >= 1) {
+        if (this.tokens !== null) {
+          this.tokens -= 1;
+        }
+        return;
+      }
+      const resetAtMs = this.resetAtMs ?? this.now() + this.defaultWindowMs;
+      this.resetAtMs = resetAtMs;
+      await raceAbort(this.sleepMs(Math.max(1, resetAtMs - this.now())), signal);
+    }
+  }
+
+  observe(headers: Headers): void {
+    const limit = parseCount(readHeader(headers, "limit"));
+    const remaining = parseCount(readHeader(headers, "remaining"));
+    if (limit === null && remaining === null) {
+      return;
+    }
+    if (limit !== null) {
+      this.limit = limit;
+    }
+    if (remaining !== null) {
+      this.tokens = remaining;
+    }
+    this.resetAtMs = parseRateLimitReset(readHeader(headers, "reset"), this.now()) ?? this.resetAtMs;
+  }
+
+  block(retryAfterSeconds: number | null): void {
+    this.tokens = 0;
+    this.resetAtMs =
+      retryAfterSeconds !== null ? this.now() + retryAfterSeconds * 1000 : this.now() + this.defaultWindowMs;
+  }
+
+  status(): ArenaRateLimitStatus | null {
+    this.refill();
+    if (this.limit === null && this.tokens === null) {
+      return null;
+    }
+    return {
+      limit: this.limit,
+      remaining: this.tokens,
+      resetAt: this.resetAtMs !== null ? new Date(this.resetAtMs).toISOString() : null,
+    };
+  }
+
+  private refill(): void {
+    if (this.resetAtMs === null || this.now() < this.resetAtMs) {
+      return;
+    }
+    this.tokens = this.limit;
+    this.resetAtMs = null;
+  }
+}
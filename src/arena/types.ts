@@ -198,6 +198,16 @@ export interface NormalizedBlock {
 
 export type NormalizedConnectable = NormalizedBlock | NormalizedChannel;
 
+export interface NormalizedConnectionResult {
+  id: number;
+  connectableId: number | null;
+  connectableType: string | null;
+  channelId: number | null;
+  position: number | null;
+  createdAt: string | null;
+  raw: unknown;
+}
+
 export interface NormalizedUser {
   id: number;
   slug: string;
@@ -242,6 +252,10 @@ export interface SearchParams {
   ext?: string[];
 }
 
+export interface ArenaReadOptions {
+  bypassCache?: boolean;
+}
+
 export interface ChannelContentsParams {
   idOrSlug: string;
   page?: number;
@@ -273,6 +287,13 @@ export interface CreateChannelInput {
   group_id?: number;
 }
 
+export interface UpdateChannelInput {
+  id_or_slug: string;
+  title?: string;
+  visibility?: ChannelVisibility;
+  description?: string;
+}
+
 export interface CreateBlockInput {
   value: string;
   channel_ids: number[];
@@ -284,6 +305,58 @@ export interface CreateBlockInput {
   insert_at?: number;
 }
 
+export interface UpdateBlockInput {
+  block_id: number;
+  title?: string;
+  description?: string;
+  content?: string;
+  alt_text?: string;
+  original_source_url?: string;
+  original_source_title?: string;
+}
+
+export type ArenaWriteMethod = "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface ArenaWriteRequest {
+  method: ArenaWriteMethod;
+  path: string;
+  body: Record<string, unknown> | null;
+}
+
+export interface ArenaRequestPreview {
+  method: ArenaWriteMethod;
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown> | null;
+}
+
+export interface ArenaRequestMetrics {
+  issuedRequests: number;
+  coalescedRequests: number;
+  inFlightRequests: number;
+}
+
+export interface ArenaRateLimitStatus {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: string | null;
+}
+
+export type ArenaCircuitState = "closed" | "open" | "half_open";
+
+export interface ArenaCircuitBreakerStatus {
+  state: ArenaCircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+export interface WritePreview {
+  operation: string;
+  request: ArenaRequestPreview;
+  changes: string[];
+}
+
 export interface ConnectBlockInput {
   block_id: number;
   channel_ids: number[];
@@ -295,3 +368,203 @@ export interface MoveConnectionInput {
   movement: MoveConnectionMovement;
   position?: number;
 }
+
+export const BATCH_WRITE_OPERATION_VALUES = [
+  "create_channel",
+  "create_block",
+  "connect_block",
+  "disconnect_connection",
+  "move_connection",
+] as const;
+export type BatchWriteOperationType = (typeof BATCH_WRITE_OPERATION_VALUES)[number];
+
+export type BatchIdReference = number | string;
+
+export type BatchWriteOperation =
+  | ({ op: "create_channel" } & CreateChannelInput)
+  | ({ op: "create_block"; channel_ids: BatchIdReference[] } & Omit<CreateBlockInput, "channel_ids">)
+  | ({ op: "connect_block"; block_id: BatchIdReference; channel_ids: BatchIdReference[] } & Omit<
+      ConnectBlockInput,
+      "block_id" | "channel_ids"
+    >)
+  | { op: "disconnect_connection"; connection_id: BatchIdReference }
+  | ({ op: "move_connection"; connection_id: BatchIdReference } & Omit<MoveConnectionInput, "connection_id">);
+
+export type BatchStepStatus = "succeeded" | "failed" | "skipped" | "dry_run";
+
+export interface BatchStepResult {
+  step: number;
+  op: BatchWriteOperationType;
+  status: BatchStepStatus;
+  createdId: number | null;
+  createdType: "Channel" | "Block" | "Connection" | null;
+  result: NormalizedChannel | NormalizedBlock | NormalizedConnectionResult | null;
+  journalIds: WriteJournalIds[];
+  previousPosition: number | null;
+  request: ArenaRequestPreview | null;
+  error: string | null;
+}
+
+export interface BatchWriteParams {
+  operations: BatchWriteOperation[];
+  concurrency: number;
+  dryRun: boolean;
+  recordPreviousPositions?: boolean;
+}
+
+export interface BatchWriteResult {
+  steps: BatchStepResult[];
+  succeededCount: number;
+  failedCount: number;
+  skippedCount: number;
+  dryRun: boolean;
+}
+
+export type WriteUndoAction =
+  | { kind: "delete_channel"; channelId: number }
+  | { kind: "delete_block"; blockId: number }
+  | { kind: "disconnect_connection"; connectionId: number }
+  | { kind: "move_connection"; connectionId: number; movement: MoveConnectionMovement; position?: number };
+
+export interface WriteJournalIds {
+  channelId: number | null;
+  blockId: number | null;
+  connectionId: number | null;
+}
+
+export interface WriteJournalEntry {
+  kind: "write";
+  id: string;
+  recordedAt: string;
+  operation: string;
+  input: Record<string, unknown>;
+  ids: WriteJournalIds;
+  undo: WriteUndoAction | null;
+}
+
+export interface WriteJournalUndoRecord {
+  kind: "undo";
+  id: string;
+  recordedAt: string;
+  entryId: string;
+  reverted: boolean;
+}
+
+export type WriteJournalRecord = WriteJournalEntry | WriteJournalUndoRecord;
+
+export type WriteUndoStatus = "undone" | "failed" | "not_reversible" | "dry_run";
+
+export interface WriteUndoResult {
+  entry: WriteJournalEntry;
+  status: WriteUndoStatus;
+  request: ArenaRequestPreview | null;
+  error: string | null;
+}
+
+export type GraphNodeType = "Channel" | "Block" | "User";
+export type GraphEdgeKind = "contains" | "owns" | "created";
+
+export interface GraphNode {
+  key: string;
+  type: GraphNodeType;
+  id: number;
+  title: string;
+  slug: string | null;
+  blockType: BlockType | null;
+  depth: number;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: GraphEdgeKind;
+  connection: NormalizedConnectionContext | null;
+}
+
+export interface GraphExpansionFailure {
+  node: string;
+  message: string;
+}
+
+export interface GraphCrawlParams {
+  root: NormalizedConnectable;
+  maxDepth: number;
+  maxNodes: number;
+  perNode: number;
+  includeUsers: boolean;
+}
+
+export interface GraphCrawlResult {
+  root: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  expandedCount: number;
+  depthReached: number;
+  truncated: boolean;
+  failures: GraphExpansionFailure[];
+}
+
+export interface GraphPathParams {
+  source: NormalizedConnectable;
+  target: NormalizedConnectable;
+  maxDepth: number;
+  maxExpansions: number;
+  perNode: number;
+}
+
+export interface GraphPathResult {
+  source: string;
+  target: string;
+  found: boolean;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  expandedCount: number;
+  budgetExhausted: boolean;
+  failures: GraphExpansionFailure[];
+}
+
+export interface ChannelContentsSnapshot {
+  channel: NormalizedChannel;
+  contents: NormalizedConnectable[];
+  truncated: boolean;
+}
+
+export interface ChannelOverlapSummary {
+  channelId: number;
+  slug: string;
+  title: string;
+  blockCount: number;
+  uniqueBlockIds: number[];
+  truncated: boolean;
+}
+
+export interface SharedBlock {
+  id: number;
+  title: string | null;
+  type: BlockType;
+  sourceUrl: string | null;
+  channelIds: number[];
+}
+
+export interface SharedSourceUrl {
+  url: string;
+  blockIds: number[];
+  channelIds: number[];
+}
+
+export interface ChannelPairOverlap {
+  channelIds: [number, number];
+  sharedBlockCount: number;
+  unionBlockCount: number;
+  jaccard: number;
+  sharedSourceUrlCount: number;
+}
+
+export interface ChannelComparisonResult {
+  channels: ChannelOverlapSummary[];
+  commonBlockIds: number[];
+  sharedBlocks: SharedBlock[];
+  sharedSourceUrls: SharedSourceUrl[];
+  pairs: ChannelPairOverlap[];
+  jaccard: number;
+}
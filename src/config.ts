@@ -1,3 +1,13 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+export interface ArenaCacheTtls {
+  channel: number;
+  block: number;
+  user: number;
+  search: number;
+}
+
 export interface ServerConfig {
   arenaAccessToken: string;
   arenaApiBaseUrl: string;
@@ -11,6 +21,20 @@ export interface ServerConfig {
   arenaImageFetchMaxBytes: number;
   arenaImageFetchMaxConcurrent: number;
   arenaImageFetchUserAgent: string;
+  arenaWriteDryRun: boolean;
+  arenaWriteJournalPath: string | null;
+  arenaCacheEnabled: boolean;
+  arenaCacheMaxEntries: number;
+  arenaCacheTtlMs: ArenaCacheTtls;
+  arenaCacheFilePath: string | null;
+  arenaConditionalRequestsEnabled: boolean;
+  arenaRateLimitEnabled: boolean;
+  arenaCircuitBreakerThreshold: number;
+  arenaCircuitBreakerResetMs: number;
+  arenaReadOnly: boolean;
+  arenaEnabledTools: string[] | null;
+  arenaDisabledTools: string[];
+  arenaSubscriptionPollIntervalMs: number;
 }
 
 export interface HttpServerConfig extends ServerConfig {
@@ -35,6 +59,18 @@ export const DEFAULT_ARENA_IMAGE_FETCH_MAX_BYTES = 2_000_000;
 export const DEFAULT_ARENA_IMAGE_FETCH_MAX_CONCURRENT = 3;
 export const DEFAULT_ARENA_IMAGE_FETCH_USER_AGENT =
   "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36";
+export const DEFAULT_ARENA_WRITE_JOURNAL_PATH = join(homedir(), ".arena-mcp", "write-journal.jsonl");
+export const DEFAULT_ARENA_CACHE_MAX_ENTRIES = 500;
+export const DEFAULT_ARENA_CACHE_TTL_MS: ArenaCacheTtls = {
+  channel: 30_000,
+  block: 120_000,
+  user: 300_000,
+  search: 30_000,
+};
+const MAX_ARENA_CACHE_TTL_MS = 86_400_000;
+export const DEFAULT_ARENA_CIRCUIT_BREAKER_THRESHOLD = 5;
+export const DEFAULT_ARENA_CIRCUIT_BREAKER_RESET_MS = 30_000;
+export const DEFAULT_ARENA_SUBSCRIPTION_POLL_INTERVAL_MS = 60_000;
 export const DEFAULT_MCP_HTTP_HOST = "0.0.0.0";
 export const DEFAULT_MCP_HTTP_PORT = 8787;
 export const DEFAULT_MCP_HTTP_PATH = "/mcp";
@@ -102,6 +138,12 @@ export function clampPerPage(per: number): number {
   return Math.max(1, Math.min(100, Math.floor(per)));
 }
 
+function parseWriteJournalPath(env: NodeJS.ProcessEnv, enabledByDefault: boolean): string | null {
+  return parseBoolean(env.ARENA_WRITE_JOURNAL_ENABLED, enabledByDefault)
+    ? env.ARENA_WRITE_JOURNAL_PATH?.trim() || DEFAULT_ARENA_WRITE_JOURNAL_PATH
+    : null;
+}
+
 export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
   const token = env.ARENA_ACCESS_TOKEN?.trim();
   if (!token) {
@@ -174,6 +216,73 @@ export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
     ),
     arenaImageFetchUserAgent:
       env.ARENA_IMAGE_FETCH_USER_AGENT?.trim() || DEFAULT_ARENA_IMAGE_FETCH_USER_AGENT,
+    arenaWriteDryRun: parseBoolean(env.ARENA_WRITE_DRY_RUN, false),
+    arenaWriteJournalPath: parseWriteJournalPath(env, true),
+    arenaCacheEnabled: parseBoolean(env.ARENA_CACHE_ENABLED, true),
+    arenaCacheMaxEntries: parseInteger(
+      env.ARENA_CACHE_MAX_ENTRIES,
+      "ARENA_CACHE_MAX_ENTRIES",
+      DEFAULT_ARENA_CACHE_MAX_ENTRIES,
+      1,
+      100_000,
+    ),
+    arenaCacheTtlMs: {
+      channel: parseInteger(
+        env.ARENA_CACHE_TTL_CHANNEL_MS,
+        "ARENA_CACHE_TTL_CHANNEL_MS",
+        DEFAULT_ARENA_CACHE_TTL_MS.channel,
+        0,
+        MAX_ARENA_CACHE_TTL_MS,
+      ),
+      block: parseInteger(
+        env.ARENA_CACHE_TTL_BLOCK_MS,
+        "ARENA_CACHE_TTL_BLOCK_MS",
+        DEFAULT_ARENA_CACHE_TTL_MS.block,
+        0,
+        MAX_ARENA_CACHE_TTL_MS,
+      ),
+      user: parseInteger(
+        env.ARENA_CACHE_TTL_USER_MS,
+        "ARENA_CACHE_TTL_USER_MS",
+        DEFAULT_ARENA_CACHE_TTL_MS.user,
+        0,
+        MAX_ARENA_CACHE_TTL_MS,
+      ),
+      search: parseInteger(
+        env.ARENA_CACHE_TTL_SEARCH_MS,
+        "ARENA_CACHE_TTL_SEARCH_MS",
+        DEFAULT_ARENA_CACHE_TTL_MS.search,
+        0,
+        MAX_ARENA_CACHE_TTL_MS,
+      ),
+    },
+    arenaCacheFilePath: env.ARENA_CACHE_FILE?.trim() || null,
+    arenaConditionalRequestsEnabled: parseBoolean(env.ARENA_CONDITIONAL_REQUESTS_ENABLED, true),
+    arenaRateLimitEnabled: parseBoolean(env.ARENA_RATE_LIMIT_ENABLED, true),
+    arenaCircuitBreakerThreshold: parseInteger(
+      env.ARENA_CIRCUIT_BREAKER_THRESHOLD,
+      "ARENA_CIRCUIT_BREAKER_THRESHOLD",
+      DEFAULT_ARENA_CIRCUIT_BREAKER_THRESHOLD,
+      0,
+      100,
+    ),
+    arenaCircuitBreakerResetMs: parseInteger(
+      env.ARENA_CIRCUIT_BREAKER_RESET_MS,
+      "ARENA_CIRCUIT_BREAKER_RESET_MS",
+      DEFAULT_ARENA_CIRCUIT_BREAKER_RESET_MS,
+      1_000,
+      600_000,
+    ),
+    arenaReadOnly: parseBoolean(env.ARENA_READ_ONLY, false),
+    arenaEnabledTools: env.ARENA_ENABLED_TOOLS?.trim() ? parseCsvList(env.ARENA_ENABLED_TOOLS) : null,
+    arenaDisabledTools: parseCsvList(env.ARENA_DISABLED_TOOLS),
+    arenaSubscriptionPollIntervalMs: parseInteger(
+      env.ARENA_SUBSCRIPTION_POLL_INTERVAL_MS,
+      "ARENA_SUBSCRIPTION_POLL_INTERVAL_MS",
+      DEFAULT_ARENA_SUBSCRIPTION_POLL_INTERVAL_MS,
+      5_000,
+      3_600_000,
+    ),
   };
 }
 
@@ -187,6 +296,8 @@ export function loadHttpConfig(env: NodeJS.ProcessEnv = process.env): HttpServer
 
   return {
     ...baseConfig,
+    // One journal file serves every session and API key, so HTTP deployments have to opt in to sharing it.
+    arenaWriteJournalPath: parseWriteJournalPath(env, false),
     mcpHttpHost: env.MCP_HTTP_HOST?.trim() || DEFAULT_MCP_HTTP_HOST,
     mcpHttpPort: parseInteger(
       env.MCP_HTTP_PORT,
@@ -26,6 +26,18 @@ export class ArenaApiError extends Error {
   }
 }
 
+export class ArenaCircuitOpenError extends Error {
+  readonly consecutiveFailures: number;
+  readonly retryAfterSeconds: number;
+
+  constructor(options: { consecutiveFailures: number; retryAfterSeconds: number }) {
+    super("Are.na API circuit breaker is open.");
+    this.name = "ArenaCircuitOpenError";
+    this.consecutiveFailures = options.consecutiveFailures;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+}
+
 function asDetailsMessage(responseBody: unknown): string | null {
   if (!responseBody || typeof responseBody !== "object") {
     return null;
@@ -58,6 +70,9 @@ function asDetailsMessage(responseBody: unknown): string | null {
 }
 
 export function toUserFacingError(error: unknown, context: ArenaErrorContext = {}): string {
+  if (error instanceof ArenaCircuitOpenError) {
+    return `Are.na API is unavailable after ${error.consecutiveFailures} consecutive failures. Requests are paused; retry in ${error.retryAfterSeconds} seconds.`;
+  }
   if (!(error instanceof ArenaApiError)) {
     if (error instanceof Error) {
       return error.message;
@@ -1,4 +1,10 @@
 import type {
+  BatchWriteResult,
+  ChannelComparisonResult,
+  GraphCrawlResult,
+  GraphEdge,
+  GraphNode,
+  GraphPathResult,
   NormalizedBlock,
   NormalizedChannel,
   NormalizedConnectable,
@@ -6,10 +12,14 @@ import type {
   NormalizedSearchResult,
   NormalizedUser,
   PaginationMeta,
+  WritePreview,
+  WriteUndoAction,
+  WriteUndoResult,
 } from "../arena/types.js";
 
 const DEFAULT_PREVIEW_LENGTH = 220;
 const DEFAULT_IMAGE_PREVIEW_LIMIT = 4;
+const DEFAULT_GRAPH_LIST_LIMIT = 200;
 
 function truncate(value: string, max: number = DEFAULT_PREVIEW_LENGTH): string {
   const compact = value.replace(/\s+/g, " ").trim();
@@ -65,13 +75,9 @@ export function formatConnectableLine(connectable: NormalizedConnectable): strin
   return `- [${connectable.type}] ${connectable.title ?? `Block ${connectable.id}`} (id: ${connectable.id}) ${renderBlockPreview(connectable)}`;
 }
 
-export function formatChannelMarkdown(
-  channel: NormalizedChannel,
-  contents: NormalizedConnectable[],
-  meta: PaginationMeta,
-): string {
+function formatChannelHeaderLines(channel: NormalizedChannel): string[] {
   const description = channel.description?.plain ?? "(no description)";
-  const lines = [
+  return [
     `# ${channel.title}`,
     "",
     `- id: ${channel.id}`,
@@ -82,6 +88,16 @@ export function formatChannelMarkdown(
     "",
     `## Description`,
     description,
+  ];
+}
+
+export function formatChannelMarkdown(
+  channel: NormalizedChannel,
+  contents: NormalizedConnectable[],
+  meta: PaginationMeta,
+): string {
+  const lines = [
+    ...formatChannelHeaderLines(channel),
     "",
     `## Contents`,
     ...contents.map((item) => formatConnectableLine(item)),
@@ -106,6 +122,30 @@ export function formatChannelMarkdown(
   return lines.join("\n");
 }
 
+export function formatChannelTraversalMarkdown(
+  channel: NormalizedChannel,
+  contents: NormalizedConnectable[],
+  summary: { pagesFetched: number; totalCount: number; nextCursor: string | null },
+): string {
+  const lines = [
+    ...formatChannelHeaderLines(channel),
+    "",
+    `## Contents`,
+    `Read ${contents.length} of ${summary.totalCount} items across ${summary.pagesFetched} page(s).`,
+    "",
+    ...contents.map((item) => formatConnectableLine(item)),
+  ];
+  if (summary.nextCursor) {
+    lines.push(
+      "",
+      "---",
+      "Stopped at the item/byte budget before the end of the channel.",
+      `Use tool read_channel_all(id_or_slug="${channel.slug}", cursor="${summary.nextCursor}") to continue.`,
+    );
+  }
+  return lines.join("\n");
+}
+
 export function formatBlockMarkdown(block: NormalizedBlock, connections: NormalizedChannel[]): string {
   const lines = [
     `# ${block.title ?? `${block.type} ${block.id}`}`,
@@ -252,3 +292,215 @@ function formatSearchFollowUpHint(item: NormalizedSearchItem): string {
   }
   return "No direct tool (refine search_arena)";
 }
+
+function formatGraphNodeLabel(node: GraphNode): string {
+  const slug = node.slug ? `, slug: ${node.slug}` : "";
+  return `[${node.blockType ?? node.type}] ${node.title} (${node.key}${slug})`;
+}
+
+function formatGraphEdgeLabel(edge: GraphEdge): string {
+  const connection = edge.connection ? ` (connection: ${edge.connection.id})` : "";
+  return `${edge.source} -[${edge.kind}]-> ${edge.target}${connection}`;
+}
+
+export function formatGraphMarkdown(graph: GraphCrawlResult): string {
+  const countByType = (type: string) => graph.nodes.filter((node) => node.type === type).length;
+  const lines = [
+    `# Graph Crawl`,
+    "",
+    `- root: ${graph.root}`,
+    `- nodes: ${graph.nodes.length} (channels: ${countByType("Channel")}, blocks: ${countByType("Block")}, users: ${countByType("User")})`,
+    `- edges: ${graph.edges.length}`,
+    `- expanded nodes: ${graph.expandedCount}`,
+    `- depth reached: ${graph.depthReached}`,
+    `- truncated: ${graph.truncated ? "yes (node cap reached)" : "no"}`,
+    "",
+    "## Nodes",
+  ];
+  for (const node of graph.nodes.slice(0, DEFAULT_GRAPH_LIST_LIMIT)) {
+    lines.push(`- ${formatGraphNodeLabel(node)}, depth: ${node.depth}`);
+  }
+  if (graph.nodes.length > DEFAULT_GRAPH_LIST_LIMIT) {
+    lines.push(`- … ${graph.nodes.length - DEFAULT_GRAPH_LIST_LIMIT} more in structuredContent.nodes`);
+  }
+
+  lines.push("", "## Edges");
+  for (const edge of graph.edges.slice(0, DEFAULT_GRAPH_LIST_LIMIT)) {
+    lines.push(`- ${formatGraphEdgeLabel(edge)}`);
+  }
+  if (graph.edges.length > DEFAULT_GRAPH_LIST_LIMIT) {
+    lines.push(`- … ${graph.edges.length - DEFAULT_GRAPH_LIST_LIMIT} more in structuredContent.edges`);
+  }
+
+  if (graph.failures.length > 0) {
+    lines.push("", "## Skipped Expansions");
+    for (const failure of graph.failures) {
+      lines.push(`- ${failure.node}: ${failure.message}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export function formatGraphPathMarkdown(result: GraphPathResult): string {
+  const lines = [
+    `# Graph Path`,
+    "",
+    `- from: ${result.source}`,
+    `- to: ${result.target}`,
+    `- found: ${result.found ? `yes (${result.edges.length} hops)` : "no"}`,
+    `- expanded nodes: ${result.expandedCount}`,
+  ];
+  if (result.found) {
+    lines.push("", "## Path");
+    result.nodes.forEach((node, index) => {
+      lines.push(`${index + 1}. ${formatGraphNodeLabel(node)}`);
+    });
+    lines.push("", "## Edges", ...result.edges.map((edge) => `- ${formatGraphEdgeLabel(edge)}`));
+  } else {
+    lines.push(
+      "",
+      result.budgetExhausted
+        ? "No path found before the expansion budget ran out. Raise max_expansions or max_depth to search further."
+        : "No path found within max_depth.",
+    );
+  }
+  if (result.failures.length > 0) {
+    lines.push("", "## Skipped Expansions");
+    for (const failure of result.failures) {
+      lines.push(`- ${failure.node}: ${failure.message}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export function formatChannelComparisonMarkdown(comparison: ChannelComparisonResult): string {
+  const titleById = new Map(comparison.channels.map((channel) => [channel.channelId, channel.slug]));
+  const label = (id: number) => titleById.get(id) ?? String(id);
+  const lines = [
+    `# Channel Comparison`,
+    "",
+    `- channels: ${comparison.channels.length}`,
+    `- blocks in all channels: ${comparison.commonBlockIds.length}`,
+    `- blocks in 2+ channels: ${comparison.sharedBlocks.length}`,
+    `- shared source URLs: ${comparison.sharedSourceUrls.length}`,
+    `- overall Jaccard similarity: ${comparison.jaccard}`,
+    "",
+    "## Channels",
+  ];
+  for (const channel of comparison.channels) {
+    const truncated = channel.truncated ? " (contents truncated)" : "";
+    lines.push(
+      `- ${channel.title} (slug: ${channel.slug}, id: ${channel.channelId}): ${channel.blockCount} blocks, ${channel.uniqueBlockIds.length} unique${truncated}`,
+    );
+  }
+
+  lines.push(
+    "",
+    "## Pairwise Overlap",
+    "",
+    "| Channel A | Channel B | Shared | Union | Jaccard | Shared URLs |",
+    "| --- | --- | --- | --- | --- | --- |",
+  );
+  for (const pair of comparison.pairs) {
+    const [left, right] = pair.channelIds;
+    lines.push(
+      `| ${quoteIfNeeded(label(left))} | ${quoteIfNeeded(label(right))} | ${pair.sharedBlockCount} | ${pair.unionBlockCount} | ${pair.jaccard} | ${pair.sharedSourceUrlCount} |`,
+    );
+  }
+
+  lines.push("", "## Shared Blocks");
+  if (comparison.sharedBlocks.length === 0) {
+    lines.push("- none");
+  }
+  for (const block of comparison.sharedBlocks.slice(0, DEFAULT_GRAPH_LIST_LIMIT)) {
+    lines.push(
+      `- [${block.type}] ${block.title ?? `Block ${block.id}`} (id: ${block.id}) in ${block.channelIds.map(label).join(", ")}`,
+    );
+  }
+
+  lines.push("", "## Shared Source URLs");
+  if (comparison.sharedSourceUrls.length === 0) {
+    lines.push("- none");
+  }
+  for (const entry of comparison.sharedSourceUrls.slice(0, DEFAULT_GRAPH_LIST_LIMIT)) {
+    lines.push(
+      `- ${entry.url} (blocks: ${entry.blockIds.join(", ")}; channels: ${entry.channelIds.map(label).join(", ")})`,
+    );
+  }
+  return lines.join("\n");
+}
+
+export function formatWritePreviewMarkdown(preview: WritePreview): string {
+  const lines = [
+    `# Dry Run: ${preview.operation}`,
+    "",
+    "No changes were made. This is the request that would be sent:",
+    "",
+    `\`${preview.request.method} ${preview.request.url}\``,
+  ];
+  if (preview.request.body) {
+    lines.push("", "```json", JSON.stringify(preview.request.body, null, 2), "```");
+  }
+  lines.push("", "## Changes", "", "```diff", ...preview.changes, "```");
+  return lines.join("\n");
+}
+
+export function formatBatchWriteMarkdown(result: BatchWriteResult): string {
+  const lines = [
+    result.dryRun ? `# Batch Write (dry run)` : `# Batch Write`,
+    "",
+    `- operations: ${result.steps.length}`,
+  ];
+  if (result.dryRun) {
+    lines.push("- no changes were made");
+  } else {
+    lines.push(
+      `- succeeded: ${result.succeededCount}`,
+      `- failed: ${result.failedCount}`,
+      `- skipped: ${result.skippedCount}`,
+    );
+  }
+
+  lines.push("", "## Steps");
+  for (const step of result.steps) {
+    let detail = "";
+    if (step.createdId !== null) {
+      detail = ` → ${step.createdType?.toLowerCase() ?? "id"} ${step.createdId}`;
+    } else if (step.request) {
+      detail = ` → ${step.request.method} ${step.request.url}`;
+    } else if (step.error) {
+      detail = ` → ${step.error}`;
+    }
+    lines.push(`${step.step}. ${step.op}: ${step.status}${detail}`);
+  }
+  return lines.join("\n");
+}
+
+function formatUndoActionLabel(action: WriteUndoAction): string {
+  switch (action.kind) {
+    case "delete_channel":
+      return `delete channel ${action.channelId}`;
+    case "delete_block":
+      return `delete block ${action.blockId}`;
+    case "disconnect_connection":
+      return `disconnect connection ${action.connectionId}`;
+    case "move_connection":
+      return `${action.movement} connection ${action.connectionId}`;
+  }
+}
+
+export function formatUndoResultsMarkdown(results: WriteUndoResult[], dryRun: boolean): string {
+  const lines = [dryRun ? `# Undo Last Writes (dry run)` : `# Undo Last Writes`, ""];
+  if (results.length === 0) {
+    lines.push("No journaled writes are left to undo.");
+    return lines.join("\n");
+  }
+  results.forEach((result, index) => {
+    const action = result.entry.undo ? formatUndoActionLabel(result.entry.undo) : "no undo available";
+    const error = result.error ? ` — ${result.error}` : "";
+    lines.push(
+      `${index + 1}. ${result.entry.operation} at ${result.entry.recordedAt}: ${result.status} (${action})${error}`,
+    );
+  });
+  return lines.join("\n");
+}
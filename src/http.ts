@@ -7,12 +7,15 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { ArenaClient } from "./arena/client.js";
 import { loadHttpConfig, type HttpServerConfig } from "./config.js";
+import { SubscriptionRegistry } from "./mcp/subscriptions.js";
 import { createArenaMcpServer } from "./server.js";
 import { buildAuthInfoFromToken, hasWriteScope, parseBearerToken } from "./http/auth.js";
 
 interface SessionRuntime {
   transport: StreamableHTTPServerTransport;
+  subscriptions: SubscriptionRegistry | null;
   closeServer: () => Promise<void>;
 }
 
@@ -49,6 +52,7 @@ function sendUnauthorized(res: Response): void {
 
 async function createRuntime(
   config: HttpServerConfig,
+  arenaClient: ArenaClient,
   sessions: Map<string, SessionRuntime>,
 ): Promise<SessionRuntime> {
   let runtimeRef: SessionRuntime | null = null;
@@ -62,7 +66,12 @@ async function createRuntime(
     },
   });
 
+  const subscriptions = config.mcpHttpStateful
+    ? new SubscriptionRegistry(arenaClient, { intervalMs: config.arenaSubscriptionPollIntervalMs })
+    : null;
   const server = createArenaMcpServer(config, {
+    arenaClient,
+    subscriptions,
     requireWriteScope: (extra) => {
       const authInfo = (extra as { authInfo?: AuthInfo } | undefined)?.authInfo;
       return hasWriteScope(authInfo) ? null : writeScopeError();
@@ -74,10 +83,11 @@ async function createRuntime(
       return;
     }
     closed = true;
+    subscriptions?.close();
     await server.close();
   };
 
-  const runtime: SessionRuntime = { transport, closeServer };
+  const runtime: SessionRuntime = { transport, subscriptions, closeServer };
   runtimeRef = runtime;
 
   transport.onclose = () => {
@@ -94,10 +104,11 @@ async function createRuntime(
 
 async function withEphemeralRuntime(
   config: HttpServerConfig,
+  arenaClient: ArenaClient,
   sessions: Map<string, SessionRuntime>,
   handler: (runtime: SessionRuntime) => Promise<void>,
 ): Promise<void> {
-  const runtime = await createRuntime(config, sessions);
+  const runtime = await createRuntime(config, arenaClient, sessions);
   await handler(runtime);
   await runtime.transport.close();
   await runtime.closeServer();
@@ -119,6 +130,7 @@ async function main(): Promise<void> {
   }
 
   const sessions = new Map<string, SessionRuntime>();
+  const arenaClient = new ArenaClient(config);
 
   app.use(config.mcpHttpPath, (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     const token = parseBearerToken(req.header("authorization"));
@@ -144,13 +156,20 @@ async function main(): Promise<void> {
     res.status(200).json({ status: "ok" });
   });
   app.get("/readyz", (_req, res) => {
-    res.status(200).json({ status: "ready", mode: config.mcpHttpStateful ? "stateful" : "stateless" });
+    const circuitBreaker = arenaClient.getCircuitBreakerStatus();
+    res.status(200).json({
+      status: circuitBreaker?.state === "open" ? "degraded" : "ready",
+      mode: config.mcpHttpStateful ? "stateful" : "stateless",
+      requests: arenaClient.getRequestMetrics(),
+      rateLimit: arenaClient.getRateLimitStatus(),
+      circuitBreaker,
+    });
   });
 
   app.post(config.mcpHttpPath, async (req: AuthenticatedRequest, res: Response) => {
     try {
       if (!config.mcpHttpStateful) {
-        await withEphemeralRuntime(config, sessions, async (runtime) => {
+        await withEphemeralRuntime(config, arenaClient, sessions, async (runtime) => {
           await runtime.transport.handleRequest(
             req as IncomingMessage & { auth?: AuthInfo },
             res as unknown as ServerResponse,
@@ -186,7 +205,7 @@ async function main(): Promise<void> {
         return;
       }
 
-      const runtime = await createRuntime(config, sessions);
+      const runtime = await createRuntime(config, arenaClient, sessions);
       await runtime.transport.handleRequest(
         req as IncomingMessage & { auth?: AuthInfo },
         res as unknown as ServerResponse,
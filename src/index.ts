@@ -6,7 +6,9 @@ import { createArenaMcpServer } from "./server.js";
 
 async function main(): Promise<void> {
   const config = loadConfig();
-  const server = createArenaMcpServer(config);
+  const server = createArenaMcpServer(config, {
+    log: (line) => process.stderr.write(`${line}\n`),
+  });
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
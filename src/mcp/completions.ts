@@ -0,0 +1,100 @@
+import type { ArenaClient } from "../arena/client.js";
+import type { SearchType } from "../arena/types.js";
+
+export type CompletionClient = Pick<ArenaClient, "getMe" | "getUserContents" | "search">;
+
+export interface ArenaCompleter {
+  channelSlugs(value: string): Promise<string[]>;
+  userSlugs(value: string): Promise<string[]>;
+}
+
+export interface ArenaCompleterOptions {
+  ttlMs?: number;
+  now?: () => number;
+}
+
+interface CompletionCacheEntry {
+  expiresAt: number;
+  value: Promise<string[]>;
+}
+
+const DEFAULT_COMPLETION_TTL_MS = 30_000;
+const MAX_COMPLETION_CACHE_ENTRIES = 200;
+const MAX_COMPLETIONS = 20;
+const MIN_SEARCH_QUERY_LENGTH = 2;
+
+export function rankCompletions<T extends string>(candidates: Iterable<T>, value: string, limit = MAX_COMPLETIONS): T[] {
+  const needle = value.trim().toLowerCase();
+  const prefixMatches: T[] = [];
+  const otherMatches: T[] = [];
+  for (const candidate of new Set(candidates)) {
+    const haystack = candidate.toLowerCase();
+    if (haystack.startsWith(needle)) {
+      prefixMatches.push(candidate);
+    } else if (haystack.includes(needle)) {
+      otherMatches.push(candidate);
+    }
+  }
+  return [...prefixMatches, ...otherMatches].slice(0, limit);
+}
+
+export function createArenaCompleter(
+  arenaClient: CompletionClient,
+  options: ArenaCompleterOptions = {},
+): ArenaCompleter {
+  const ttlMs = options.ttlMs ?? DEFAULT_COMPLETION_TTL_MS;
+  const now = options.now ?? Date.now;
+  const entries = new Map<string, CompletionCacheEntry>();
+
+  const cached = (key: string, load: () => Promise<string[]>): Promise<string[]> => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt > now()) {
+      return entry.value;
+    }
+    for (const [entryKey, candidate] of entries) {
+      if (candidate.expiresAt <= now() || entries.size >= MAX_COMPLETION_CACHE_ENTRIES) {
+        entries.delete(entryKey);
+      }
+    }
+    const value = load().catch(() => {
+      entries.delete(key);
+      return [];
+    });
+    entries.set(key, { expiresAt: now() + ttlMs, value });
+    return value;
+  };
+
+  const searchSlugs = (type: SearchType, value: string): Promise<string[]> => {
+    const query = value.trim().toLowerCase();
+    if (query.length < MIN_SEARCH_QUERY_LENGTH) {
+      return Promise.resolve([]);
+    }
+    return cached(`search:${type}:${query}`, async () => {
+      const result = await arenaClient.search({ query, type, per: MAX_COMPLETIONS });
+      return result.items.flatMap((item) => (item.entityType === type && item.slug ? [item.slug] : []));
+    });
+  };
+
+  const mySlug = () => cached("me", async () => [(await arenaClient.getMe()).slug]);
+
+  const myChannelSlugs = () =>
+    cached("me:channels", async () => {
+      const [slug] = await mySlug();
+      if (!slug) {
+        return [];
+      }
+      const result = await arenaClient.getUserContents({ idOrSlug: slug, page: 1, per: 100, type: "Channel" });
+      return result.data.flatMap((item) => (item.type === "Channel" ? [item.slug] : []));
+    });
+
+  return {
+    async channelSlugs(value) {
+      const [own, searched] = await Promise.all([myChannelSlugs(), searchSlugs("Channel", value)]);
+      return rankCompletions([...own, ...searched], value);
+    },
+    async userSlugs(value) {
+      const [own, searched] = await Promise.all([mySlug(), searchSlugs("User", value)]);
+      return rankCompletions([...own, ...searched], value);
+    },
+  };
+}
@@ -15,6 +15,8 @@ export interface ImageFetchOptions {
   timeoutMs?: number;
   maxConcurrent?: number;
   userAgent?: string;
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
 }
 
 export interface ImageFetchTarget {
@@ -22,14 +24,16 @@ export interface ImageFetchTarget {
   sourceId?: number;
 }
 
-type ImageFetchFailureReason =
-  | "http_error"
-  | "non_image_content_type"
-  | "content_length_exceeded"
-  | "body_too_large"
-  | "empty_body"
-  | "timeout"
-  | "network_error";
+export const IMAGE_FETCH_FAILURE_REASON_VALUES = [
+  "http_error",
+  "non_image_content_type",
+  "content_length_exceeded",
+  "body_too_large",
+  "empty_body",
+  "timeout",
+  "network_error",
+] as const;
+type ImageFetchFailureReason = (typeof IMAGE_FETCH_FAILURE_REASON_VALUES)[number];
 
 export interface ImageFetchDetail {
   target_index: number;
@@ -70,6 +74,8 @@ interface NormalizedImageFetchOptions {
   timeoutMs: number;
   maxConcurrent: number;
   userAgent: string;
+  signal: AbortSignal | undefined;
+  onProgress: ((completed: number, total: number) => void) | undefined;
 }
 
 interface ImageFetchSuccess {
@@ -150,6 +156,8 @@ function normalizeOptions(options: ImageFetchOptions): NormalizedImageFetchOptio
     timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
     maxConcurrent: options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT,
     userAgent: options.userAgent?.trim() || DEFAULT_USER_AGENT,
+    signal: options.signal,
+    onProgress: options.onProgress,
   };
 }
 
@@ -247,7 +255,7 @@ async function fetchImageBytes(url: string, options: NormalizedImageFetchOptions
     const response = await options.fetchImpl(url, {
       method: "GET",
       redirect: "follow",
-      signal: controller.signal,
+      signal: options.signal ? AbortSignal.any([controller.signal, options.signal]) : controller.signal,
       headers: {
         "User-Agent": options.userAgent,
         Accept: "image/avif,image/webp,image/apng,image/*,*/*;q=0.8",
@@ -328,6 +336,9 @@ async function fetchImageBytes(url: string, options: NormalizedImageFetchOptions
       base64: Buffer.from(bytes).toString("base64"),
     };
   } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
     const isAbortError = error instanceof Error && error.name === "AbortError";
     return {
       ok: false,
@@ -347,6 +358,8 @@ async function mapWithConcurrency<T, R>(
   items: T[],
   limit: number,
   mapper: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+  onProgress?: (completed: number, total: number) => void,
 ): Promise<R[]> {
   if (items.length === 0) {
     return [];
@@ -354,10 +367,12 @@ async function mapWithConcurrency<T, R>(
 
   const results = new Array<R>(items.length);
   let cursor = 0;
+  let completed = 0;
   const workerCount = Math.max(1, Math.min(limit, items.length));
 
   const workers = Array.from({ length: workerCount }, async () => {
     while (cursor < items.length) {
+      signal?.throwIfAborted();
       const currentIndex = cursor;
       cursor += 1;
       const item = items[currentIndex];
@@ -365,6 +380,8 @@ async function mapWithConcurrency<T, R>(
         continue;
       }
       results[currentIndex] = await mapper(item, currentIndex);
+      completed += 1;
+      onProgress?.(completed, items.length);
     }
   });
   await Promise.all(workers);
@@ -475,8 +492,12 @@ async function buildImagePayloads(
   const normalizedOptions = normalizeOptions(options);
   const targets = normalizeTargets(imageSources, normalizedOptions.maxImages);
 
-  const results = await mapWithConcurrency(targets, normalizedOptions.maxConcurrent, (target, index) =>
-    fetchTarget(target, index, normalizedOptions),
+  const results = await mapWithConcurrency(
+    targets,
+    normalizedOptions.maxConcurrent,
+    (target, index) => fetchTarget(target, index, normalizedOptions),
+    normalizedOptions.signal,
+    normalizedOptions.onProgress,
   );
 
   const summary = buildSummary(results, normalizedOptions);
@@ -0,0 +1,48 @@
+import type { ServerConfig } from "../config.js";
+import { PROMPT_NAMES } from "./prompts.js";
+import { RESOURCE_URIS } from "./resources.js";
+import { READ_TOOL_NAMES } from "./tools-read.js";
+import { WRITE_TOOL_NAMES } from "./tools-write.js";
+
+export interface ServerInventory {
+  tools: string[];
+  disabledTools: string[];
+  resources: string[];
+  prompts: string[];
+}
+
+export type ToolFilterConfig = Pick<ServerConfig, "arenaReadOnly" | "arenaEnabledTools" | "arenaDisabledTools">;
+
+export function isToolEnabled(config: ToolFilterConfig, name: string): boolean {
+  return (
+    (config.arenaEnabledTools === null || config.arenaEnabledTools.includes(name)) &&
+    !config.arenaDisabledTools.includes(name)
+  );
+}
+
+export function buildInventory(config: ToolFilterConfig): ServerInventory {
+  const available: string[] = [...READ_TOOL_NAMES, ...(config.arenaReadOnly ? [] : WRITE_TOOL_NAMES)];
+  return {
+    tools: available.filter((name) => isToolEnabled(config, name)),
+    disabledTools: available.filter((name) => !isToolEnabled(config, name)),
+    resources: [...RESOURCE_URIS],
+    prompts: [...PROMPT_NAMES],
+  };
+}
+
+export function formatInventory(inventory: ServerInventory, config: ToolFilterConfig): string[] {
+  const list = (values: string[]) => (values.length > 0 ? values.join(", ") : "(none)");
+  const known = new Set([...inventory.tools, ...inventory.disabledTools]);
+  const unknown = [...(config.arenaEnabledTools ?? []), ...config.arenaDisabledTools].filter(
+    (name) => !known.has(name),
+  );
+  return [
+    `Active tools (${inventory.tools.length}${config.arenaReadOnly ? ", read-only" : ""}): ${list(inventory.tools)}`,
+    ...(inventory.disabledTools.length > 0 ? [`Disabled tools: ${list(inventory.disabledTools)}`] : []),
+    ...(unknown.length > 0
+      ? [`Ignoring unavailable tool names in ARENA_ENABLED_TOOLS/ARENA_DISABLED_TOOLS: ${list(unknown)}`]
+      : []),
+    `Active resources (${inventory.resources.length}): ${list(inventory.resources)}`,
+    `Active prompts (${inventory.prompts.length}): ${list(inventory.prompts)}`,
+  ];
+}
@@ -0,0 +1,519 @@
+import { z } from "zod";
+import {
+  BATCH_WRITE_OPERATION_VALUES,
+  MOVE_CONNECTION_VALUES,
+  type ArenaRequestPreview,
+  type ChannelComparisonResult,
+  type GraphEdge,
+  type GraphExpansionFailure,
+  type GraphNode,
+  type NormalizedBlock,
+  type NormalizedChannel,
+  type NormalizedConnectable,
+  type NormalizedConnectionContext,
+  type NormalizedEmbeddedUser,
+  type NormalizedMarkdown,
+  type NormalizedUser,
+  type PaginationMeta,
+  type WriteJournalIds,
+  type WriteUndoAction,
+} from "../arena/types.js";
+import { IMAGE_FETCH_FAILURE_REASON_VALUES, type ImageFetchSummary } from "./images.js";
+
+export const CHANNEL_RESOLUTION_STRATEGY_VALUES = [
+  "direct",
+  "url-extracted",
+  "search-exact-slug",
+  "search-exact-title",
+  "search-single",
+] as const;
+export type ChannelResolutionStrategy = (typeof CHANNEL_RESOLUTION_STRATEGY_VALUES)[number];
+
+const BLOCK_TYPE_VALUES = ["Text", "Image", "Link", "Attachment", "Embed", "PendingBlock"] as const;
+const SOURCE_API_VALUES = ["v3", "v2-fallback"] as const;
+
+const paginationMetaSchema: z.ZodType<PaginationMeta> = z.object({
+  currentPage: z.number(),
+  nextPage: z.number().nullable(),
+  prevPage: z.number().nullable(),
+  perPage: z.number(),
+  totalPages: z.number(),
+  totalCount: z.number(),
+  hasMorePages: z.boolean(),
+});
+
+const markdownSchema: z.ZodType<NormalizedMarkdown> = z.object({
+  markdown: z.string(),
+  html: z.string(),
+  plain: z.string(),
+});
+
+const embeddedUserSchema: z.ZodType<NormalizedEmbeddedUser> = z.object({
+  id: z.number(),
+  slug: z.string(),
+  name: z.string(),
+  avatar: z.string().nullable(),
+  initials: z.string().nullable(),
+});
+
+const connectionContextSchema: z.ZodType<NormalizedConnectionContext> = z.object({
+  id: z.number(),
+  position: z.number().nullable(),
+  pinned: z.boolean().nullable(),
+  connectedAt: z.string().nullable(),
+  connectedBy: embeddedUserSchema.nullable(),
+});
+
+const channelSchema: z.ZodType<NormalizedChannel> = z.object({
+  type: z.literal("Channel"),
+  id: z.number(),
+  slug: z.string(),
+  title: z.string(),
+  description: markdownSchema.nullable(),
+  state: z.string().nullable(),
+  visibility: z.string().nullable(),
+  createdAt: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+  owner: embeddedUserSchema.nullable(),
+  counts: z
+    .object({
+      blocks: z.number(),
+      channels: z.number(),
+      contents: z.number(),
+      collaborators: z.number(),
+    })
+    .nullable(),
+  connection: connectionContextSchema.nullable(),
+});
+
+const blockSchema: z.ZodType<NormalizedBlock> = z.object({
+  type: z.enum(BLOCK_TYPE_VALUES),
+  id: z.number(),
+  title: z.string().nullable(),
+  description: markdownSchema.nullable(),
+  state: z.string().nullable(),
+  visibility: z.string().nullable(),
+  commentCount: z.number().nullable(),
+  createdAt: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+  user: embeddedUserSchema.nullable(),
+  sourceUrl: z.string().nullable(),
+  sourceTitle: z.string().nullable(),
+  content: markdownSchema.nullable(),
+  image: z
+    .object({
+      src: z.string().nullable(),
+      small: z.string().nullable(),
+      medium: z.string().nullable(),
+      large: z.string().nullable(),
+      square: z.string().nullable(),
+      altText: z.string().nullable(),
+      width: z.number().nullable(),
+      height: z.number().nullable(),
+      contentType: z.string().nullable(),
+      filename: z.string().nullable(),
+      fileSize: z.number().nullable(),
+    })
+    .nullable(),
+  attachment: z
+    .object({
+      url: z.string(),
+      filename: z.string().nullable(),
+      contentType: z.string().nullable(),
+      fileSize: z.number().nullable(),
+      fileExtension: z.string().nullable(),
+    })
+    .nullable(),
+  embed: z
+    .object({
+      url: z.string().nullable(),
+      sourceUrl: z.string().nullable(),
+      html: z.string().nullable(),
+      title: z.string().nullable(),
+      type: z.string().nullable(),
+      authorName: z.string().nullable(),
+    })
+    .nullable(),
+  connection: connectionContextSchema.nullable(),
+});
+
+const connectableSchema: z.ZodType<NormalizedConnectable> = z.union([blockSchema, channelSchema]);
+
+const connectionResultSchema = z.object({
+  id: z.number(),
+  connectableId: z.number().nullable(),
+  connectableType: z.string().nullable(),
+  channelId: z.number().nullable(),
+  position: z.number().nullable(),
+  createdAt: z.string().nullable(),
+  raw: z.unknown(),
+});
+
+const userSchema: z.ZodType<NormalizedUser> = z.object({
+  id: z.number(),
+  slug: z.string(),
+  name: z.string(),
+  avatar: z.string().nullable(),
+  initials: z.string().nullable(),
+  bio: markdownSchema.nullable(),
+  createdAt: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+  counts: z
+    .object({
+      channels: z.number().optional(),
+      following: z.number().optional(),
+      followers: z.number().optional(),
+      blocks: z.number().optional(),
+    })
+    .nullable(),
+});
+
+const searchItemSchema = z.object({
+  id: z.number(),
+  entityType: z.enum(["Block", "Channel", "User", "Group"]),
+  title: z.string(),
+  subtitle: z.string().nullable(),
+  slug: z.string().nullable(),
+  blockType: z.enum(BLOCK_TYPE_VALUES).nullable(),
+  url: z.string().nullable(),
+  raw: z.unknown(),
+});
+
+const followUpActionSchema = z.object({
+  tool: z.string(),
+  arguments: z.record(z.unknown()),
+});
+
+const channelResolutionSchema = z.object({
+  input: z.string(),
+  resolved_id_or_slug: z.string(),
+  strategy: z.enum(CHANNEL_RESOLUTION_STRATEGY_VALUES),
+  expected_owner_slug: z.string().nullable(),
+  actual_owner_slug: z.string().nullable(),
+  search_source_api: z.enum(SOURCE_API_VALUES).nullable(),
+});
+
+const imageFetchSummarySchema: z.ZodType<ImageFetchSummary> = z.object({
+  attempted_targets: z.number(),
+  successful_targets: z.number(),
+  failed_targets: z.number(),
+  max_images: z.number(),
+  max_bytes: z.number(),
+  timeout_ms: z.number(),
+  max_concurrent: z.number(),
+  user_agent: z.string(),
+  details: z.array(
+    z.object({
+      target_index: z.number(),
+      source_id: z.number().nullable(),
+      candidate_urls: z.array(z.string()),
+      attempted_urls: z.array(z.string()),
+      selected_url: z.string().nullable(),
+      success: z.boolean(),
+      attempts: z.number(),
+      reason: z.enum(IMAGE_FETCH_FAILURE_REASON_VALUES).nullable(),
+      status: z.number().nullable(),
+      mime_type: z.string().nullable(),
+      content_length: z.number().nullable(),
+      bytes: z.number().nullable(),
+    }),
+  ),
+});
+
+const graphNodeSchema: z.ZodType<GraphNode> = z.object({
+  key: z.string(),
+  type: z.enum(["Channel", "Block", "User"]),
+  id: z.number(),
+  title: z.string(),
+  slug: z.string().nullable(),
+  blockType: z.enum(BLOCK_TYPE_VALUES).nullable(),
+  depth: z.number(),
+});
+
+const graphEdgeSchema: z.ZodType<GraphEdge> = z.object({
+  source: z.string(),
+  target: z.string(),
+  kind: z.enum(["contains", "owns", "created"]),
+  connection: connectionContextSchema.nullable(),
+});
+
+const graphFailureSchema: z.ZodType<GraphExpansionFailure> = z.object({
+  node: z.string(),
+  message: z.string(),
+});
+
+const comparisonSchema = z.object({
+  channels: z.array(
+    z.object({
+      channelId: z.number(),
+      slug: z.string(),
+      title: z.string(),
+      blockCount: z.number(),
+      uniqueBlockIds: z.array(z.number()),
+      truncated: z.boolean(),
+    }),
+  ),
+  commonBlockIds: z.array(z.number()),
+  sharedBlocks: z.array(
+    z.object({
+      id: z.number(),
+      title: z.string().nullable(),
+      type: z.enum(BLOCK_TYPE_VALUES),
+      sourceUrl: z.string().nullable(),
+      channelIds: z.array(z.number()),
+    }),
+  ),
+  sharedSourceUrls: z.array(
+    z.object({
+      url: z.string(),
+      blockIds: z.array(z.number()),
+      channelIds: z.array(z.number()),
+    }),
+  ),
+  pairs: z.array(
+    z.object({
+      channelIds: z.tuple([z.number(), z.number()]),
+      sharedBlockCount: z.number(),
+      unionBlockCount: z.number(),
+      jaccard: z.number(),
+      sharedSourceUrlCount: z.number(),
+    }),
+  ),
+  jaccard: z.number(),
+}) satisfies z.ZodType<ChannelComparisonResult>;
+
+const requestPreviewSchema: z.ZodType<ArenaRequestPreview> = z.object({
+  method: z.enum(["POST", "PUT", "PATCH", "DELETE"]),
+  url: z.string(),
+  headers: z.record(z.string()),
+  body: z.record(z.unknown()).nullable(),
+});
+
+const journalIdsSchema: z.ZodType<WriteJournalIds> = z.object({
+  channelId: z.number().nullable(),
+  blockId: z.number().nullable(),
+  connectionId: z.number().nullable(),
+});
+
+const undoActionSchema: z.ZodType<WriteUndoAction> = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("delete_channel"), channelId: z.number() }),
+  z.object({ kind: z.literal("delete_block"), blockId: z.number() }),
+  z.object({ kind: z.literal("disconnect_connection"), connectionId: z.number() }),
+  z.object({
+    kind: z.literal("move_connection"),
+    connectionId: z.number(),
+    movement: z.enum(MOVE_CONNECTION_VALUES),
+    position: z.number().optional(),
+  }),
+]);
+
+const rateLimitSchema = z.object({
+  limit: z.number().nullable(),
+  remaining: z.number().nullable(),
+  reset_at: z.string().nullable(),
+});
+
+const dryRunPreviewShape = {
+  dry_run: z.literal(true),
+  operation: z.string(),
+  request: requestPreviewSchema,
+  changes: z.array(z.string()),
+  resolved: z.object({
+    channel: channelSchema.optional(),
+    block: blockSchema.optional(),
+    channels: z.array(channelSchema).optional(),
+  }),
+};
+
+function toolOutput<Shape extends z.ZodRawShape>(shape: Shape) {
+  return { ...shape, rate_limit: rateLimitSchema.optional() };
+}
+
+function writeToolOutput<Shape extends z.ZodRawShape>(shape: Shape) {
+  return toolOutput({
+    ...z.object(dryRunPreviewShape).partial().shape,
+    ...z.object(shape).partial().shape,
+  });
+}
+
+export const searchArenaOutputSchema = toolOutput({
+  source_api: z.enum(SOURCE_API_VALUES),
+  meta: paginationMetaSchema,
+  items: z.array(searchItemSchema),
+  returned_count: z.number(),
+  truncated: z.boolean(),
+  truncation_reason: z.literal("response_size_budget").nullable(),
+  raw_included: z.boolean(),
+  top_result: searchItemSchema.nullable(),
+  top_result_id: z.number().nullable(),
+  top_result_type: z.enum(["Block", "Channel", "User", "Group"]).nullable(),
+  top_result_title: z.string().nullable(),
+  top_result_action: followUpActionSchema.nullable(),
+  top_result_connections_action: followUpActionSchema.nullable(),
+  next_page_action: followUpActionSchema.nullable(),
+  refine_hint: z.string().nullable(),
+});
+
+export const getChannelContentsOutputSchema = toolOutput({
+  channel: channelSchema,
+  channel_resolution: channelResolutionSchema,
+  contents: z.array(connectableSchema),
+  meta: paginationMetaSchema,
+  image_urls: z.array(z.string()),
+  image_fetch_summary: imageFetchSummarySchema,
+});
+
+export const readChannelAllOutputSchema = toolOutput({
+  channel: channelSchema,
+  channel_resolution: channelResolutionSchema,
+  contents: z.array(connectableSchema),
+  returned_count: z.number(),
+  total_count: z.number(),
+  pages_fetched: z.number(),
+  bytes: z.number(),
+  complete: z.boolean(),
+  stop_reason: z.enum(["exhausted", "max_items", "max_bytes"]),
+  next_cursor: z.string().nullable(),
+  next_action: followUpActionSchema.nullable(),
+});
+
+export const crawlGraphOutputSchema = toolOutput({
+  root: z.string(),
+  nodes: z.array(graphNodeSchema),
+  edges: z.array(graphEdgeSchema),
+  node_count: z.number(),
+  edge_count: z.number(),
+  expanded_count: z.number(),
+  depth_reached: z.number(),
+  truncated: z.boolean(),
+  truncation_reason: z.literal("max_nodes").nullable(),
+  failures: z.array(graphFailureSchema),
+});
+
+export const findPathOutputSchema = toolOutput({
+  from: z.string(),
+  to: z.string(),
+  found: z.boolean(),
+  hops: z.number().nullable(),
+  path: z.array(graphNodeSchema),
+  edges: z.array(graphEdgeSchema),
+  expanded_count: z.number(),
+  budget_exhausted: z.boolean(),
+  failures: z.array(graphFailureSchema),
+});
+
+export const compareChannelsOutputSchema = toolOutput({
+  channels: comparisonSchema.shape.channels,
+  common_block_ids: comparisonSchema.shape.commonBlockIds,
+  shared_blocks: comparisonSchema.shape.sharedBlocks,
+  shared_source_urls: comparisonSchema.shape.sharedSourceUrls,
+  pairs: comparisonSchema.shape.pairs,
+  jaccard: comparisonSchema.shape.jaccard,
+  truncated: z.boolean(),
+});
+
+export const getBlockDetailsOutputSchema = toolOutput({
+  block: blockSchema,
+  connections: z.array(channelSchema),
+  meta: paginationMetaSchema,
+  image_urls: z.array(z.string()),
+  image_fetch_summary: imageFetchSummarySchema,
+});
+
+export const getBlockConnectionsOutputSchema = toolOutput({
+  channels: z.array(channelSchema),
+  meta: paginationMetaSchema,
+});
+
+export const getUserOutputSchema = toolOutput({
+  user: userSchema,
+  recent_contents: z.array(connectableSchema),
+  meta: paginationMetaSchema,
+});
+
+export const getUserContentsOutputSchema = toolOutput({
+  user: userSchema,
+  contents: z.array(connectableSchema),
+  meta: paginationMetaSchema,
+});
+
+export const createChannelOutputSchema = writeToolOutput({
+  channel: channelSchema,
+  url: z.string(),
+});
+
+export const updateChannelOutputSchema = writeToolOutput({
+  channel: channelSchema,
+  url: z.string(),
+  updated_fields: z.array(z.string()),
+});
+
+export const deleteChannelOutputSchema = writeToolOutput({
+  channel_id: z.number(),
+  slug: z.string(),
+  deleted: z.literal(true),
+});
+
+export const createBlockOutputSchema = writeToolOutput({
+  block: blockSchema,
+});
+
+export const updateBlockOutputSchema = writeToolOutput({
+  block: blockSchema,
+  updated_fields: z.array(z.string()),
+});
+
+export const deleteBlockOutputSchema = writeToolOutput({
+  block_id: z.number(),
+  deleted: z.literal(true),
+});
+
+export const connectBlockOutputSchema = writeToolOutput({
+  connection: connectionResultSchema,
+  connections: z.array(connectionResultSchema),
+});
+
+export const disconnectConnectionOutputSchema = writeToolOutput({
+  connection_id: z.number(),
+  disconnected: z.literal(true),
+});
+
+export const moveConnectionOutputSchema = writeToolOutput({
+  connection: connectionResultSchema,
+});
+
+export const batchWriteOutputSchema = toolOutput({
+  dry_run: z.boolean(),
+  succeeded_count: z.number(),
+  failed_count: z.number(),
+  skipped_count: z.number(),
+  steps: z.array(
+    z.object({
+      step: z.number(),
+      op: z.enum(BATCH_WRITE_OPERATION_VALUES),
+      status: z.enum(["succeeded", "failed", "skipped", "dry_run"]),
+      created_id: z.number().nullable(),
+      created_type: z.enum(["Channel", "Block", "Connection"]).nullable(),
+      result: z.union([channelSchema, blockSchema, connectionResultSchema]).nullable(),
+      request: requestPreviewSchema.nullable(),
+      error: z.string().nullable(),
+    }),
+  ),
+});
+
+export const undoLastWritesOutputSchema = toolOutput({
+  dry_run: z.boolean(),
+  journal_path: z.string(),
+  results: z.array(
+    z.object({
+      entry_id: z.string(),
+      operation: z.string(),
+      recorded_at: z.string(),
+      ids: journalIdsSchema,
+      status: z.enum(["undone", "failed", "not_reversible", "dry_run"]),
+      undo: undoActionSchema.nullable(),
+      request: requestPreviewSchema.nullable(),
+      error: z.string().nullable(),
+    }),
+  ),
+});
@@ -1,15 +1,43 @@
 import { z } from "zod";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { SEARCH_SCOPE_VALUES } from "../arena/types.js";
+import { type ArenaCompleter, rankCompletions } from "./completions.js";
+
+interface PromptDeps {
+  completer: ArenaCompleter;
+  isToolEnabled?: (name: string) => boolean;
+}
+
+export const PROMPT_NAMES = ["summarize_channel", "find_connections", "second_brain_synthesis"] as const;
+
+function describeChannelRead(idOrSlug: string, isToolEnabled: (name: string) => boolean): string[] {
+  if (isToolEnabled("read_channel_all")) {
+    return [
+      `Read channel ${idOrSlug} using read_channel_all.`,
+      "If it returns next_cursor, call it again with that cursor until complete.",
+    ];
+  }
+  if (isToolEnabled("get_channel_contents")) {
+    return [`Read channel ${idOrSlug} using get_channel_contents.`, "Traverse additional pages if needed."];
+  }
+  return [
+    `Read channel ${idOrSlug} from the arena://channel/${idOrSlug} resource.`,
+    "Read its /page/{page} variants if it has more pages.",
+  ];
+}
+
+export function registerPrompts(server: McpServer, deps: PromptDeps): void {
+  const { completer } = deps;
+  const isToolEnabled = deps.isToolEnabled ?? (() => true);
 
-export function registerPrompts(server: McpServer): void {
   server.registerPrompt(
     "summarize_channel",
     {
       title: "Summarize Channel",
       description: "Summarize recurring ideas, clusters, and tensions within a channel.",
       argsSchema: {
-        id_or_slug: z.string().min(1),
+        id_or_slug: completable(z.string().min(1), (value) => completer.channelSlugs(value)),
         focus: z.string().optional(),
       },
     },
@@ -22,8 +50,7 @@ export function registerPrompts(server: McpServer): void {
             content: {
               type: "text",
               text: [
-                `Read channel ${id_or_slug} using get_channel_contents.`,
-                "Traverse additional pages if needed.",
+                ...describeChannelRead(id_or_slug, isToolEnabled),
                 `${focusText}`,
                 "Return a synthesis with: key themes, notable blocks, and contradictions.",
               ].join(" "),
@@ -72,7 +99,9 @@ export function registerPrompts(server: McpServer): void {
       description: "Create a synthesis across Are.na content for a topic.",
       argsSchema: {
         topic: z.string().min(1),
-        scope: z.enum(SEARCH_SCOPE_VALUES).optional(),
+        scope: completable(z.enum(SEARCH_SCOPE_VALUES).optional(), (value) =>
+          rankCompletions(SEARCH_SCOPE_VALUES, value ?? ""),
+        ),
       },
     },
     ({ topic, scope }) => {
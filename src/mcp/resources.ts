@@ -1,19 +1,52 @@
 import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ReadResourceResult, Resource } from "@modelcontextprotocol/sdk/types.js";
 import { toUserFacingError } from "../errors.js";
-import { formatBlockMarkdown, formatChannelMarkdown, formatUserMarkdown } from "../format/markdown.js";
+import {
+  formatBlockMarkdown,
+  formatChannelMarkdown,
+  formatSearchResultsMarkdown,
+  formatUserMarkdown,
+} from "../format/markdown.js";
 import type { ArenaClient } from "../arena/client.js";
+import {
+  SEARCH_SCOPE_VALUES,
+  SEARCH_TYPE_VALUES,
+  type NormalizedBlock,
+  type NormalizedChannel,
+  type SearchParams,
+} from "../arena/types.js";
 import {
   buildImageResourceContents,
   type ImageFetchOptions,
   extractImageTargetsFromBlock,
   extractImageTargetsFromConnectables,
 } from "./images.js";
+import type { ArenaCompleter } from "./completions.js";
 
 interface ResourceDeps {
   arenaClient: ArenaClient;
   imageFetchOptions?: Pick<ImageFetchOptions, "maxBytes" | "timeoutMs" | "maxConcurrent" | "userAgent">;
+  completer: ArenaCompleter;
 }
 
+export const RESOURCE_URIS = [
+  "arena://channel/{idOrSlug}.json",
+  "arena://channel/{idOrSlug}/page/{page}.json",
+  "arena://channel/{idOrSlug}/page/{page}",
+  "arena://channel/{idOrSlug}",
+  "arena://block/{id}.json",
+  "arena://block/{id}",
+  "arena://user/{idOrSlug}.json",
+  "arena://user/{idOrSlug}",
+  "arena://search/{query}",
+  "arena://me",
+] as const;
+
+const RESOURCE_LIST_PER = 100;
+const CHANNEL_LIST_MAX_ITEMS = 500;
+const RECENT_BLOCKS_LIMIT = 50;
+const SEARCH_RESOURCE_PER = 10;
+
 function requireVariable(value: string | string[] | undefined, variableName: string): string {
   if (typeof value === "string" && value.trim() !== "") {
     return value;
@@ -24,63 +57,270 @@ function requireVariable(value: string | string[] | undefined, variableName: str
   throw new Error(`Missing URI variable ${variableName}.`);
 }
 
+function requirePositiveInteger(value: string | string[] | undefined, variableName: string, label: string): number {
+  const raw = requireVariable(value, variableName);
+  const parsed = Number.parseInt(raw, 10);
+  if (Number.isNaN(parsed) || parsed < 1 || String(parsed) !== raw) {
+    throw new Error(`Invalid ${label}: ${raw}`);
+  }
+  return parsed;
+}
+
+function parseEnumParam<T extends string>(values: readonly T[], raw: string | null, name: string): T | undefined {
+  if (raw === null || raw === "") {
+    return undefined;
+  }
+  const match = values.find((value) => value.toLowerCase() === raw.toLowerCase());
+  if (!match) {
+    throw new Error(`Invalid ${name} "${raw}". Expected one of: ${values.join(", ")}.`);
+  }
+  return match;
+}
+
+function parseSearchResourceUri(uri: URL): SearchParams {
+  const query = requireVariable(decodeURIComponent(uri.pathname.replace(/^\//, "")), "query").trim();
+  const page = uri.searchParams.get("page");
+  return {
+    query,
+    type: parseEnumParam(SEARCH_TYPE_VALUES, uri.searchParams.get("type"), "type"),
+    scope: parseEnumParam(SEARCH_SCOPE_VALUES, uri.searchParams.get("scope"), "scope"),
+    page: page === null ? 1 : requirePositiveInteger(page, "page", "page number"),
+    per: SEARCH_RESOURCE_PER,
+  };
+}
+
+function jsonResourceContents(uri: URL, value: unknown): ReadResourceResult {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+async function listMyChannels(arenaClient: ArenaClient, signal?: AbortSignal): Promise<NormalizedChannel[]> {
+  const me = await arenaClient.getMe(signal);
+  const channels: NormalizedChannel[] = [];
+  let page: number | null = 1;
+  while (page !== null && channels.length < CHANNEL_LIST_MAX_ITEMS) {
+    const result = await arenaClient.getUserContents(
+      { idOrSlug: me.slug, page, per: RESOURCE_LIST_PER, type: "Channel" },
+      signal,
+    );
+    channels.push(...result.data.filter((item): item is NormalizedChannel => item.type === "Channel"));
+    const { nextPage } = result.meta;
+    page = result.data.length > 0 && result.meta.hasMorePages && nextPage !== null && nextPage > page ? nextPage : null;
+  }
+  return channels.slice(0, CHANNEL_LIST_MAX_ITEMS);
+}
+
+async function listRecentBlocks(arenaClient: ArenaClient, signal?: AbortSignal): Promise<NormalizedBlock[]> {
+  const me = await arenaClient.getMe(signal);
+  const result = await arenaClient.getUserContents(
+    { idOrSlug: me.slug, page: 1, per: RECENT_BLOCKS_LIMIT, sort: "updated_at_desc", type: "Block" },
+    signal,
+  );
+  return result.data.filter((item): item is NormalizedBlock => item.type !== "Channel");
+}
+
+function channelResource(channel: NormalizedChannel): Resource {
+  const itemCount = channel.counts ? ` (${channel.counts.contents} items)` : "";
+  return {
+    uri: `arena://channel/${channel.slug}`,
+    name: channel.slug,
+    title: channel.title,
+    description: `${channel.description?.plain || channel.title}${itemCount}`,
+    mimeType: "text/markdown",
+  };
+}
+
+function blockResource(block: NormalizedBlock): Resource {
+  return {
+    uri: `arena://block/${block.id}`,
+    name: String(block.id),
+    title: block.title ?? `${block.type} block ${block.id}`,
+    ...(block.updatedAt ? { description: `${block.type} block, updated ${block.updatedAt}` } : {}),
+    mimeType: "text/markdown",
+  };
+}
+
 export function registerResources(server: McpServer, deps: ResourceDeps): void {
-  const { arenaClient, imageFetchOptions } = deps;
+  const { arenaClient, imageFetchOptions, completer } = deps;
+
+  const completeChannel = { idOrSlug: (value: string) => completer.channelSlugs(value) };
+
+  const readChannelMarkdown = async (
+    uri: URL,
+    idOrSlug: string,
+    page: number,
+    signal: AbortSignal,
+  ): Promise<ReadResourceResult> => {
+    const channel = await arenaClient.getChannel(idOrSlug, signal);
+    const contents = await arenaClient.getChannelContents({ idOrSlug, page }, signal);
+    const imageTargets = extractImageTargetsFromConnectables(contents.data, 4);
+    const imageContents = await buildImageResourceContents(imageTargets, uri.href, {
+      maxImages: 4,
+      ...imageFetchOptions,
+      signal,
+    });
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "text/markdown",
+          text: formatChannelMarkdown(channel, contents.data, contents.meta),
+        },
+        ...imageContents,
+      ],
+    };
+  };
+
+  const readChannelJson = async (uri: URL, idOrSlug: string, page: number, signal: AbortSignal) => {
+    const channel = await arenaClient.getChannel(idOrSlug, signal);
+    const contents = await arenaClient.getChannelContents({ idOrSlug, page }, signal);
+    return jsonResourceContents(uri, { channel, contents: contents.data, meta: contents.meta });
+  };
+
+  // Variants are registered first: templates match in registration order, and the base
+  // arena://channel/{idOrSlug} template would otherwise also match "slug.json".
+  server.registerResource(
+    "arena-channel-json",
+    new ResourceTemplate("arena://channel/{idOrSlug}.json", { list: undefined, complete: completeChannel }),
+    {
+      title: "Are.na Channel (JSON)",
+      description: "Read a channel and its first page of contents as normalized JSON.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      try {
+        const idOrSlug = requireVariable(variables.idOrSlug, "idOrSlug");
+        return await readChannelJson(uri, idOrSlug, 1, extra.signal);
+      } catch (error) {
+        throw new Error(toUserFacingError(error, { operation: "arena://channel", target: uri.href }));
+      }
+    },
+  );
+
+  server.registerResource(
+    "arena-channel-page-json",
+    new ResourceTemplate("arena://channel/{idOrSlug}/page/{page}.json", {
+      list: undefined,
+      complete: completeChannel,
+    }),
+    {
+      title: "Are.na Channel Page (JSON)",
+      description: "Read one page of a channel's contents as normalized JSON.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      try {
+        const idOrSlug = requireVariable(variables.idOrSlug, "idOrSlug");
+        const page = requirePositiveInteger(variables.page, "page", "page number");
+        return await readChannelJson(uri, idOrSlug, page, extra.signal);
+      } catch (error) {
+        throw new Error(toUserFacingError(error, { operation: "arena://channel", target: uri.href }));
+      }
+    },
+  );
+
+  server.registerResource(
+    "arena-channel-page",
+    new ResourceTemplate("arena://channel/{idOrSlug}/page/{page}", { list: undefined, complete: completeChannel }),
+    {
+      title: "Are.na Channel Page",
+      description: "Read a channel and one page of its contents.",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables, extra) => {
+      try {
+        const idOrSlug = requireVariable(variables.idOrSlug, "idOrSlug");
+        const page = requirePositiveInteger(variables.page, "page", "page number");
+        return await readChannelMarkdown(uri, idOrSlug, page, extra.signal);
+      } catch (error) {
+        throw new Error(toUserFacingError(error, { operation: "arena://channel", target: uri.href }));
+      }
+    },
+  );
 
   server.registerResource(
     "arena-channel",
-    new ResourceTemplate("arena://channel/{idOrSlug}", { list: undefined }),
+    new ResourceTemplate("arena://channel/{idOrSlug}", {
+      list: async (extra) => {
+        try {
+          return { resources: (await listMyChannels(arenaClient, extra.signal)).map(channelResource) };
+        } catch (error) {
+          throw new Error(toUserFacingError(error, { operation: "arena://channel list" }));
+        }
+      },
+      complete: completeChannel,
+    }),
     {
       title: "Are.na Channel",
       description: "Read a channel and its latest contents.",
       mimeType: "text/markdown",
     },
-    async (uri, variables) => {
+    async (uri, variables, extra) => {
       try {
         const idOrSlug = requireVariable(variables.idOrSlug, "idOrSlug");
-        const channel = await arenaClient.getChannel(idOrSlug);
-        const contents = await arenaClient.getChannelContents({ idOrSlug, page: 1 });
-        const imageTargets = extractImageTargetsFromConnectables(contents.data, 4);
-        const imageContents = await buildImageResourceContents(imageTargets, uri.href, {
-          maxImages: 4,
-          ...imageFetchOptions,
-        });
-        return {
-          contents: [
-            {
-              uri: uri.href,
-              mimeType: "text/markdown",
-              text: formatChannelMarkdown(channel, contents.data, contents.meta),
-            },
-            ...imageContents,
-          ],
-        };
+        return await readChannelMarkdown(uri, idOrSlug, 1, extra.signal);
       } catch (error) {
         throw new Error(toUserFacingError(error, { operation: "arena://channel", target: uri.href }));
       }
     },
   );
 
+  server.registerResource(
+    "arena-block-json",
+    new ResourceTemplate("arena://block/{id}.json", { list: undefined }),
+    {
+      title: "Are.na Block (JSON)",
+      description: "Read a block and the channels it is connected to as normalized JSON.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      try {
+        const blockId = requirePositiveInteger(variables.id, "id", "block ID");
+        const block = await arenaClient.getBlock(blockId, extra.signal);
+        const connections = await arenaClient.getBlockConnections({ id: blockId, page: 1 }, extra.signal);
+        return jsonResourceContents(uri, { block, connections: connections.data, meta: connections.meta });
+      } catch (error) {
+        throw new Error(toUserFacingError(error, { operation: "arena://block", target: uri.href }));
+      }
+    },
+  );
+
   server.registerResource(
     "arena-block",
-    new ResourceTemplate("arena://block/{id}", { list: undefined }),
+    new ResourceTemplate("arena://block/{id}", {
+      list: async (extra) => {
+        try {
+          return { resources: (await listRecentBlocks(arenaClient, extra.signal)).map(blockResource) };
+        } catch (error) {
+          throw new Error(toUserFacingError(error, { operation: "arena://block list" }));
+        }
+      },
+    }),
     {
       title: "Are.na Block",
       description: "Read full details for a block and where it is connected.",
       mimeType: "text/markdown",
     },
-    async (uri, variables) => {
+    async (uri, variables, extra) => {
       try {
         const blockId = Number.parseInt(requireVariable(variables.id, "id"), 10);
         if (Number.isNaN(blockId)) {
           throw new Error(`Invalid block ID: ${variables.id as string}`);
         }
-        const block = await arenaClient.getBlock(blockId);
-        const connections = await arenaClient.getBlockConnections({ id: blockId, page: 1 });
+        const block = await arenaClient.getBlock(blockId, extra.signal);
+        const connections = await arenaClient.getBlockConnections({ id: blockId, page: 1 }, extra.signal);
         const imageTargets = extractImageTargetsFromBlock(block, 1);
         const imageContents = await buildImageResourceContents(imageTargets, uri.href, {
           maxImages: 1,
           ...imageFetchOptions,
+          signal: extra.signal,
         });
         return {
           contents: [
@@ -98,19 +338,45 @@ export function registerResources(server: McpServer, deps: ResourceDeps): void {
     },
   );
 
+  server.registerResource(
+    "arena-user-json",
+    new ResourceTemplate("arena://user/{idOrSlug}.json", {
+      list: undefined,
+      complete: { idOrSlug: (value) => completer.userSlugs(value) },
+    }),
+    {
+      title: "Are.na User (JSON)",
+      description: "Read a user profile and recent content as normalized JSON.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      try {
+        const idOrSlug = requireVariable(variables.idOrSlug, "idOrSlug");
+        const user = await arenaClient.getUser(idOrSlug, extra.signal);
+        const contents = await arenaClient.getUserContents({ idOrSlug, page: 1 }, extra.signal);
+        return jsonResourceContents(uri, { user, contents: contents.data, meta: contents.meta });
+      } catch (error) {
+        throw new Error(toUserFacingError(error, { operation: "arena://user", target: uri.href }));
+      }
+    },
+  );
+
   server.registerResource(
     "arena-user",
-    new ResourceTemplate("arena://user/{idOrSlug}", { list: undefined }),
+    new ResourceTemplate("arena://user/{idOrSlug}", {
+      list: undefined,
+      complete: { idOrSlug: (value) => completer.userSlugs(value) },
+    }),
     {
       title: "Are.na User",
       description: "Read user profile and recent content.",
       mimeType: "text/markdown",
     },
-    async (uri, variables) => {
+    async (uri, variables, extra) => {
       try {
         const idOrSlug = requireVariable(variables.idOrSlug, "idOrSlug");
-        const user = await arenaClient.getUser(idOrSlug);
-        const contents = await arenaClient.getUserContents({ idOrSlug, page: 1 });
+        const user = await arenaClient.getUser(idOrSlug, extra.signal);
+        const contents = await arenaClient.getUserContents({ idOrSlug, page: 1 }, extra.signal);
         return {
           contents: [
             {
@@ -126,6 +392,56 @@ export function registerResources(server: McpServer, deps: ResourceDeps): void {
     },
   );
 
+  server.registerResource(
+    "arena-search",
+    new ResourceTemplate("arena://search/{query}", { list: undefined }),
+    {
+      title: "Are.na Search",
+      description:
+        "Search Are.na. Optional query parameters: type (e.g. Channel, Image), scope (all, my, following), page.",
+      mimeType: "text/markdown",
+    },
+    async (uri, _variables, extra) => {
+      try {
+        const params = parseSearchResourceUri(uri);
+        const result = await arenaClient.search(params, extra.signal);
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: "text/markdown",
+              text: formatSearchResultsMarkdown(result),
+            },
+            {
+              uri: uri.href,
+              mimeType: "application/json",
+              text: JSON.stringify(
+                {
+                  query: params,
+                  source_api: result.sourceApi,
+                  items: result.items.map(({ id, entityType, title, subtitle, slug, blockType, url }) => ({
+                    id,
+                    entityType,
+                    title,
+                    subtitle,
+                    slug,
+                    blockType,
+                    url,
+                  })),
+                  meta: result.meta,
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(toUserFacingError(error, { operation: "arena://search", target: uri.href }));
+      }
+    },
+  );
+
   server.registerResource(
     "arena-me",
     "arena://me",
@@ -134,14 +450,17 @@ export function registerResources(server: McpServer, deps: ResourceDeps): void {
       description: "Read the currently authenticated user profile and latest channels.",
       mimeType: "text/markdown",
     },
-    async (uri) => {
+    async (uri, extra) => {
       try {
-        const me = await arenaClient.getMe();
-        const contents = await arenaClient.getUserContents({
-          idOrSlug: me.slug,
-          page: 1,
-          type: "Channel",
-        });
+        const me = await arenaClient.getMe(extra.signal);
+        const contents = await arenaClient.getUserContents(
+          {
+            idOrSlug: me.slug,
+            page: 1,
+            type: "Channel",
+          },
+          extra.signal,
+        );
         return {
           contents: [
             {
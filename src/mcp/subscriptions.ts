@@ -0,0 +1,178 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ArenaClient } from "../arena/client.js";
+
+export type SubscriptionClient = Pick<
+  ArenaClient,
+  "getChannel" | "getChannelContents" | "getBlock" | "getBlockConnections"
+>;
+
+export interface SubscriptionRegistryOptions {
+  intervalMs: number;
+}
+
+type SubscriptionTarget = { kind: "channel"; idOrSlug: string } | { kind: "block"; id: number };
+
+interface Subscription {
+  target: SubscriptionTarget;
+  snapshot: string | null;
+}
+
+const SNAPSHOT_PER_PAGE = 100;
+const SNAPSHOT_READ_OPTIONS = { bypassCache: true };
+
+export function parseSubscriptionUri(uri: string): SubscriptionTarget | null {
+  const channelMatch = /^arena:\/\/channel\/(.+?)(?:\/page\/\d+)?(?:\.json)?$/.exec(uri);
+  if (channelMatch?.[1]) {
+    return { kind: "channel", idOrSlug: decodeURIComponent(channelMatch[1]) };
+  }
+  const blockMatch = /^arena:\/\/block\/(\d+)(?:\.json)?$/.exec(uri);
+  if (blockMatch?.[1]) {
+    return { kind: "block", id: Number.parseInt(blockMatch[1], 10) };
+  }
+  return null;
+}
+
+export class SubscriptionRegistry {
+  private readonly arenaClient: SubscriptionClient;
+  private readonly options: SubscriptionRegistryOptions;
+  private readonly subscriptions = new Map<string, Subscription>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling: Promise<void> | null = null;
+  private closed = false;
+
+  onupdated?: (uri: string) => Promise<void> | void;
+
+  constructor(arenaClient: SubscriptionClient, options: SubscriptionRegistryOptions) {
+    this.arenaClient = arenaClient;
+    this.options = options;
+  }
+
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  async subscribe(uri: string): Promise<void> {
+    const target = parseSubscriptionUri(uri);
+    if (!target) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Subscriptions are supported for arena://channel/{idOrSlug} and arena://block/{id}, received ${uri}.`,
+      );
+    }
+    if (this.closed || this.subscriptions.has(uri)) {
+      return;
+    }
+    const subscription: Subscription = { target, snapshot: null };
+    this.subscriptions.set(uri, subscription);
+    subscription.snapshot = await this.takeSnapshot(target).catch(() => null);
+    this.startTimer();
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.stopTimer();
+    }
+  }
+
+  async poll(): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.pollSubscriptions().finally(() => {
+        this.polling = null;
+      });
+    }
+    await this.polling;
+  }
+
+  close(): void {
+    this.closed = true;
+    this.subscriptions.clear();
+    this.stopTimer();
+  }
+
+  private async pollSubscriptions(): Promise<void> {
+    for (const [uri, subscription] of [...this.subscriptions]) {
+      let snapshot: string;
+      try {
+        snapshot = await this.takeSnapshot(subscription.target);
+      } catch {
+        continue;
+      }
+      if (this.subscriptions.get(uri) !== subscription) {
+        continue;
+      }
+      const previous = subscription.snapshot;
+      subscription.snapshot = snapshot;
+      if (previous !== null && previous !== snapshot) {
+        await Promise.resolve(this.onupdated?.(uri)).catch(() => undefined);
+      }
+    }
+  }
+
+  private async takeSnapshot(target: SubscriptionTarget): Promise<string> {
+    if (target.kind === "channel") {
+      const channel = await this.arenaClient.getChannel(target.idOrSlug, undefined, SNAPSHOT_READ_OPTIONS);
+      const contents = await this.arenaClient.getChannelContents(
+        { idOrSlug: target.idOrSlug, page: 1, per: SNAPSHOT_PER_PAGE, sort: "position_asc" },
+        undefined,
+        SNAPSHOT_READ_OPTIONS,
+      );
+      return JSON.stringify({
+        updatedAt: channel.updatedAt,
+        count: contents.meta.totalCount,
+        connections: contents.data.map((item) => [
+          `${item.type === "Channel" ? "channel" : "block"}:${item.id}`,
+          item.connection?.id ?? null,
+          item.connection?.position ?? null,
+        ]),
+      });
+    }
+    const block = await this.arenaClient.getBlock(target.id, undefined, SNAPSHOT_READ_OPTIONS);
+    const connections = await this.arenaClient.getBlockConnections(
+      { id: target.id, page: 1, per: SNAPSHOT_PER_PAGE },
+      undefined,
+      SNAPSHOT_READ_OPTIONS,
+    );
+    return JSON.stringify({
+      updatedAt: block.updatedAt,
+      count: connections.meta.totalCount,
+      channels: connections.data.map((channel) => channel.id),
+    });
+  }
+
+  private startTimer(): void {
+    if (this.timer || this.closed || this.subscriptions.size === 0) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export function registerSubscriptions(server: McpServer, registry: SubscriptionRegistry): void {
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await registry.subscribe(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    registry.unsubscribe(request.params.uri);
+    return {};
+  });
+  registry.onupdated = (uri) => server.server.sendResourceUpdated({ uri });
+}
@@ -1,7 +1,37 @@
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AnySchema, ZodRawShapeCompat } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+  ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ArenaRateLimitStatus } from "../arena/types.js";
 
 type ToolContent = CallToolResult["content"][number];
 
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
+export type ConfirmationOutcome = "confirmed" | "declined" | "unsupported";
+
+export type ToolRegistrar<Name extends string> = <
+  OutputArgs extends ZodRawShapeCompat | AnySchema,
+  InputArgs extends undefined | ZodRawShapeCompat | AnySchema = undefined,
+>(
+  name: Name,
+  config: {
+    title?: string;
+    description?: string;
+    inputSchema?: InputArgs;
+    outputSchema?: OutputArgs;
+    annotations?: ToolAnnotations;
+  },
+  callback: ToolCallback<InputArgs>,
+) => void;
+
 export function toolSuccess(
   text: string,
   structuredContent?: Record<string, unknown>,
@@ -19,3 +49,81 @@ export function toolError(message: string): CallToolResult {
     content: [{ type: "text", text: `Error: ${message}` }],
   };
 }
+
+function withRateLimitStatus(result: CallToolResult, status: ArenaRateLimitStatus | null): CallToolResult {
+  if (!status || !result.structuredContent) {
+    return result;
+  }
+  return {
+    ...result,
+    structuredContent: {
+      ...result.structuredContent,
+      rate_limit: { limit: status.limit, remaining: status.remaining, reset_at: status.resetAt },
+    },
+  };
+}
+
+export function createToolSuccess(getRateLimitStatus: () => ArenaRateLimitStatus | null): typeof toolSuccess {
+  return (text, structuredContent, extraContent) =>
+    withRateLimitStatus(toolSuccess(text, structuredContent, extraContent), getRateLimitStatus());
+}
+
+export function createToolRegistrar<Name extends string>(
+  server: McpServer,
+  isEnabled: (name: string) => boolean = () => true,
+): ToolRegistrar<Name> {
+  return (name, config, callback) => {
+    if (isEnabled(name)) {
+      server.registerTool(name, config, callback);
+    }
+  };
+}
+
+export function createProgressReporter(extra: ToolExtra): ProgressReporter {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return () => undefined;
+  }
+  let lastProgress = 0;
+  return (progress, total, message) => {
+    if (progress <= lastProgress) {
+      return;
+    }
+    lastProgress = progress;
+    void extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress,
+          ...(total !== undefined ? { total } : {}),
+          ...(message ? { message } : {}),
+        },
+      })
+      .catch(() => undefined);
+  };
+}
+
+export async function requestUserConfirmation(
+  server: McpServer,
+  extra: ToolExtra,
+  message: string,
+): Promise<ConfirmationOutcome> {
+  if (!server.server.getClientCapabilities()?.elicitation) {
+    return "unsupported";
+  }
+  const result = await server.server.elicitInput(
+    {
+      message,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: { type: "boolean", title: "Confirm", description: "Proceed with this change." },
+        },
+        required: ["confirm"],
+      },
+    },
+    { relatedRequestId: extra.requestId },
+  );
+  return result.action === "accept" && result.content?.confirm === true ? "confirmed" : "declined";
+}
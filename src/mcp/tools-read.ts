@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { ArenaClient } from "../arena/client.js";
+import { compareChannelSnapshots } from "../arena/compare.js";
+import { crawlGraph, findGraphPath } from "../arena/graph.js";
 import {
   CHANNEL_CONTENT_SORT_VALUES,
   CONNECTION_FILTER_VALUES,
@@ -8,6 +10,7 @@ import {
   CONTENT_SORT_VALUES,
   CONTENT_TYPE_FILTER_VALUES,
   type NormalizedChannel,
+  type NormalizedConnectable,
   type NormalizedSearchItem,
   SEARCH_SCOPE_VALUES,
   SEARCH_SORT_VALUES,
@@ -16,7 +19,11 @@ import {
 import { isArenaApiError, toUserFacingError } from "../errors.js";
 import {
   formatBlockMarkdown,
+  formatChannelComparisonMarkdown,
   formatChannelMarkdown,
+  formatChannelTraversalMarkdown,
+  formatGraphMarkdown,
+  formatGraphPathMarkdown,
   formatSearchResultsMarkdown,
   formatUserMarkdown,
 } from "../format/markdown.js";
@@ -28,26 +35,77 @@ import {
   extractImageUrlsFromBlock,
   extractImageUrlsFromConnectables,
 } from "./images.js";
-import { toolError, toolSuccess } from "./tool-utils.js";
+import {
+  type ChannelResolutionStrategy,
+  compareChannelsOutputSchema,
+  crawlGraphOutputSchema,
+  findPathOutputSchema,
+  getBlockConnectionsOutputSchema,
+  getBlockDetailsOutputSchema,
+  getChannelContentsOutputSchema,
+  getUserContentsOutputSchema,
+  getUserOutputSchema,
+  readChannelAllOutputSchema,
+  searchArenaOutputSchema,
+} from "./output-schemas.js";
+import { createProgressReporter, createToolRegistrar, createToolSuccess, toolError } from "./tool-utils.js";
 
 interface ReadToolDeps {
   arenaClient: ArenaClient;
   searchFallbackEnabled: boolean;
   imageFetchOptions?: Pick<ImageFetchOptions, "maxBytes" | "timeoutMs" | "maxConcurrent" | "userAgent">;
+  isToolEnabled?: (name: string) => boolean;
 }
 
+export const READ_TOOL_NAMES = [
+  "search_arena",
+  "get_channel_contents",
+  "read_channel_all",
+  "crawl_graph",
+  "find_path",
+  "compare_channels",
+  "get_block_details",
+  "get_block_connections",
+  "get_user",
+  "get_user_contents",
+] as const;
+
 const positiveInteger = z.number().int().positive();
 const pageSchema = z.number().int().min(1).optional();
 const perSchema = z.number().int().min(1).max(100).optional();
 const SEARCH_DEFAULT_PER = 10;
 const SEARCH_STRUCTURED_MAX_BYTES = 24_000;
+const READ_ALL_PER = 100;
+const READ_ALL_DEFAULT_MAX_ITEMS = 500;
+const READ_ALL_MAX_ITEMS = 5_000;
+const READ_ALL_DEFAULT_MAX_BYTES = 200_000;
+const READ_ALL_MAX_BYTES = 2_000_000;
+const CRAWL_DEFAULT_MAX_DEPTH = 2;
+const CRAWL_MAX_DEPTH = 4;
+const CRAWL_DEFAULT_MAX_NODES = 100;
+const CRAWL_MAX_NODES = 500;
+const CRAWL_DEFAULT_PER_NODE = 25;
+const PATH_DEFAULT_MAX_DEPTH = 4;
+const PATH_MAX_DEPTH = 8;
+const PATH_DEFAULT_MAX_EXPANSIONS = 60;
+const PATH_MAX_EXPANSIONS = 300;
+const PATH_DEFAULT_PER_NODE = 50;
+const COMPARE_DEFAULT_MAX_ITEMS = 1_000;
+const READ_ONLY_ANNOTATIONS = { readOnlyHint: true, openWorldHint: true };
+
+const graphEndpointSchema = z.object({
+  channel: z.string().min(1).optional(),
+  block_id: positiveInteger.optional(),
+});
 
 type StructuredSearchItem = Omit<NormalizedSearchItem, "raw"> & { raw?: unknown };
 
 export function registerReadTools(server: McpServer, deps: ReadToolDeps): void {
   const { arenaClient, searchFallbackEnabled, imageFetchOptions } = deps;
+  const toolSuccess = createToolSuccess(() => arenaClient.getRateLimitStatus());
+  const registerTool = createToolRegistrar<(typeof READ_TOOL_NAMES)[number]>(server, deps.isToolEnabled);
 
-  server.registerTool(
+  registerTool(
     "search_arena",
     {
       title: "Search Are.na",
@@ -68,16 +126,21 @@ export function registerReadTools(server: McpServer, deps: ReadToolDeps): void {
         ext: z.array(z.string()).optional(),
         include_raw: z.boolean().optional(),
       },
+      outputSchema: searchArenaOutputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async (args) => {
+    async (args, extra) => {
       try {
         const { include_raw: includeRawArg, ...searchArgs } = args;
         const includeRaw = includeRawArg === true;
         const requestedPer = searchArgs.per ?? SEARCH_DEFAULT_PER;
-        const result = await arenaClient.search({
-          ...searchArgs,
-          per: requestedPer,
-        });
+        const result = await arenaClient.search(
+          {
+            ...searchArgs,
+            per: requestedPer,
+          },
+          extra.signal,
+        );
         const compactItems = result.items.map((item) => toStructuredSearchItem(item, includeRaw));
         const fit = fitSearchItemsToBudget({
           items: compactItems,
@@ -142,7 +205,7 @@ export function registerReadTools(server: McpServer, deps: ReadToolDeps): void {
     },
   );
 
-  server.registerTool(
+  registerTool(
     "get_channel_contents",
     {
       title: "Get Channel Contents",
@@ -154,36 +217,39 @@ export function registerReadTools(server: McpServer, deps: ReadToolDeps): void {
         sort: z.enum(CHANNEL_CONTENT_SORT_VALUES).optional(),
         user_id: positiveInteger.optional(),
       },
+      outputSchema: getChannelContentsOutputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async (args) => {
+    async (args, extra) => {
+      const reportProgress = createProgressReporter(extra);
       try {
-        const resolution = await resolveChannelFromInput(arenaClient, args.id_or_slug);
-        const result = await arenaClient.getChannelContents({
-          idOrSlug: resolution.idOrSlug,
-          page: args.page,
-          per: args.per,
-          sort: args.sort,
-          user_id: args.user_id,
-        });
+        const resolution = await resolveChannelFromInput(arenaClient, args.id_or_slug, extra.signal);
+        const result = await arenaClient.getChannelContents(
+          {
+            idOrSlug: resolution.idOrSlug,
+            page: args.page,
+            per: args.per,
+            sort: args.sort,
+            user_id: args.user_id,
+          },
+          extra.signal,
+        );
         const imageUrls = extractImageUrlsFromConnectables(result.data, 4);
         const imageTargets = extractImageTargetsFromConnectables(result.data, 4);
+        reportProgress(1, 1 + imageTargets.length, "Fetched channel contents");
         const { content: imageContent, summary: imageFetchSummary } = await buildImageContentWithSummary(
           imageTargets,
           {
             maxImages: 4,
             ...imageFetchOptions,
+            signal: extra.signal,
+            onProgress: (completed, total) =>
+              reportProgress(1 + completed, 1 + total, `Fetched ${completed} of ${total} image(s)`),
           },
         );
         return toolSuccess(formatChannelMarkdown(resolution.channel, result.data, result.meta), {
           channel: resolution.channel,
-          channel_resolution: {
-            input: args.id_or_slug,
-            resolved_id_or_slug: resolution.idOrSlug,
-            strategy: resolution.strategy,
-            expected_owner_slug: resolution.expectedOwnerSlug,
-            actual_owner_slug: resolution.channel.owner?.slug ?? null,
-            search_source_api: resolution.searchSourceApi ?? null,
-          },
+          channel_resolution: buildChannelResolutionSummary(args.id_or_slug, resolution),
           contents: result.data,
           meta: result.meta,
           image_urls: imageUrls,
@@ -197,7 +263,294 @@ export function registerReadTools(server: McpServer, deps: ReadToolDeps): void {
     },
   );
 
-  server.registerTool(
+  registerTool(
+    "read_channel_all",
+    {
+      title: "Read Entire Channel",
+      description:
+        "Read every page of a channel's contents until exhausted or an item/byte budget is hit. Returns a cursor to resume from when it stops early.",
+      inputSchema: {
+        id_or_slug: z.string().min(1),
+        sort: z.enum(CHANNEL_CONTENT_SORT_VALUES).optional(),
+        user_id: positiveInteger.optional(),
+        max_items: z.number().int().min(1).max(READ_ALL_MAX_ITEMS).optional(),
+        max_bytes: z.number().int().min(1_000).max(READ_ALL_MAX_BYTES).optional(),
+        cursor: z.string().optional(),
+      },
+      outputSchema: readChannelAllOutputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
+    },
+    async (args, extra) => {
+      const reportProgress = createProgressReporter(extra);
+      try {
+        const start = parseChannelCursor(args.cursor);
+        const maxItems = args.max_items ?? READ_ALL_DEFAULT_MAX_ITEMS;
+        const maxBytes = args.max_bytes ?? READ_ALL_DEFAULT_MAX_BYTES;
+        const resolution = await resolveChannelFromInput(arenaClient, args.id_or_slug, extra.signal);
+
+        const contents: NormalizedConnectable[] = [];
+        let bytes = 0;
+        let pagesFetched = 0;
+        let totalCount = 0;
+        let nextCursor: string | null = null;
+        let stopReason: "exhausted" | "max_items" | "max_bytes" = "exhausted";
+
+        traversal: for await (const page of arenaClient.iterateChannelContents(
+          {
+            idOrSlug: resolution.idOrSlug,
+            page: start.page,
+            per: READ_ALL_PER,
+            sort: args.sort,
+            user_id: args.user_id,
+          },
+          extra.signal,
+        )) {
+          pagesFetched += 1;
+          totalCount = page.meta.totalCount;
+          reportProgress(
+            pagesFetched,
+            Math.max(pagesFetched, page.meta.totalPages - start.page + 1),
+            `Fetched page ${page.meta.currentPage} of ${page.meta.totalPages}`,
+          );
+          const offset = pagesFetched === 1 ? start.offset : 0;
+          for (let index = offset; index < page.data.length; index += 1) {
+            const item = page.data[index];
+            if (item === undefined) {
+              continue;
+            }
+            const itemBytes = Buffer.byteLength(JSON.stringify(item), "utf8");
+            if (contents.length > 0 && bytes + itemBytes > maxBytes) {
+              nextCursor = formatChannelCursor(page.meta.currentPage, index);
+              stopReason = "max_bytes";
+              break traversal;
+            }
+            if (contents.length >= maxItems) {
+              nextCursor = formatChannelCursor(page.meta.currentPage, index);
+              stopReason = "max_items";
+              break traversal;
+            }
+            contents.push(item);
+            bytes += itemBytes;
+          }
+          if (contents.length >= maxItems && page.meta.nextPage !== null && page.meta.hasMorePages) {
+            nextCursor = formatChannelCursor(page.meta.nextPage, 0);
+            stopReason = "max_items";
+            break;
+          }
+        }
+
+        const nextAction = nextCursor
+          ? {
+              tool: "read_channel_all",
+              arguments: Object.fromEntries(
+                Object.entries({
+                  id_or_slug: resolution.idOrSlug,
+                  sort: args.sort,
+                  user_id: args.user_id,
+                  max_items: args.max_items,
+                  max_bytes: args.max_bytes,
+                  cursor: nextCursor,
+                }).filter(([, value]) => value !== undefined),
+              ),
+            }
+          : null;
+
+        return toolSuccess(
+          formatChannelTraversalMarkdown(resolution.channel, contents, {
+            pagesFetched,
+            totalCount,
+            nextCursor,
+          }),
+          {
+            channel: resolution.channel,
+            channel_resolution: buildChannelResolutionSummary(args.id_or_slug, resolution),
+            contents,
+            returned_count: contents.length,
+            total_count: totalCount,
+            pages_fetched: pagesFetched,
+            bytes,
+            complete: nextCursor === null,
+            stop_reason: stopReason,
+            next_cursor: nextCursor,
+            next_action: nextAction,
+          },
+        );
+      } catch (error) {
+        return toolError(
+          toUserFacingError(error, { operation: "read_channel_all", target: args.id_or_slug }),
+        );
+      }
+    },
+  );
+
+  registerTool(
+    "crawl_graph",
+    {
+      title: "Crawl Graph",
+      description:
+        "Breadth-first crawl from a channel or block, alternating channel contents and block connections. Returns a node/edge list of channels, blocks, and users.",
+      inputSchema: {
+        channel: z.string().min(1).optional(),
+        block_id: positiveInteger.optional(),
+        max_depth: z.number().int().min(1).max(CRAWL_MAX_DEPTH).optional(),
+        max_nodes: z.number().int().min(1).max(CRAWL_MAX_NODES).optional(),
+        per_node: perSchema,
+        include_users: z.boolean().optional(),
+      },
+      outputSchema: crawlGraphOutputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
+    },
+    async (args, extra) => {
+      const target = args.channel ?? args.block_id;
+      const reportProgress = createProgressReporter(extra);
+      try {
+        const root = await resolveGraphEndpoint(arenaClient, args, "crawl root", extra.signal);
+        const graph = await crawlGraph(
+          arenaClient,
+          {
+            root,
+            maxDepth: args.max_depth ?? CRAWL_DEFAULT_MAX_DEPTH,
+            maxNodes: args.max_nodes ?? CRAWL_DEFAULT_MAX_NODES,
+            perNode: args.per_node ?? CRAWL_DEFAULT_PER_NODE,
+            includeUsers: args.include_users ?? true,
+          },
+          {
+            signal: extra.signal,
+            onExpansion: (completed) => reportProgress(completed, undefined, `Expanded ${completed} node(s)`),
+          },
+        );
+        return toolSuccess(formatGraphMarkdown(graph), {
+          root: graph.root,
+          nodes: graph.nodes,
+          edges: graph.edges,
+          node_count: graph.nodes.length,
+          edge_count: graph.edges.length,
+          expanded_count: graph.expandedCount,
+          depth_reached: graph.depthReached,
+          truncated: graph.truncated,
+          truncation_reason: graph.truncated ? "max_nodes" : null,
+          failures: graph.failures,
+        });
+      } catch (error) {
+        return toolError(toUserFacingError(error, { operation: "crawl_graph", target }));
+      }
+    },
+  );
+
+  registerTool(
+    "find_path",
+    {
+      title: "Find Path",
+      description:
+        "Find the shortest chain of channels and blocks linking two endpoints using a bidirectional bounded search over channel contents and block connections.",
+      inputSchema: {
+        from: graphEndpointSchema,
+        to: graphEndpointSchema,
+        max_depth: z.number().int().min(1).max(PATH_MAX_DEPTH).optional(),
+        max_expansions: z.number().int().min(1).max(PATH_MAX_EXPANSIONS).optional(),
+        per_node: perSchema,
+      },
+      outputSchema: findPathOutputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
+    },
+    async (args, extra) => {
+      const target = `${args.from.channel ?? args.from.block_id} -> ${args.to.channel ?? args.to.block_id}`;
+      const reportProgress = createProgressReporter(extra);
+      const maxExpansions = args.max_expansions ?? PATH_DEFAULT_MAX_EXPANSIONS;
+      try {
+        const source = await resolveGraphEndpoint(arenaClient, args.from, "from", extra.signal);
+        const destination = await resolveGraphEndpoint(arenaClient, args.to, "to", extra.signal);
+        const result = await findGraphPath(
+          arenaClient,
+          {
+            source,
+            target: destination,
+            maxDepth: args.max_depth ?? PATH_DEFAULT_MAX_DEPTH,
+            maxExpansions,
+            perNode: args.per_node ?? PATH_DEFAULT_PER_NODE,
+          },
+          {
+            signal: extra.signal,
+            onExpansion: (completed) =>
+              reportProgress(completed, maxExpansions, `Expanded ${completed} node(s)`),
+          },
+        );
+        return toolSuccess(formatGraphPathMarkdown(result), {
+          from: result.source,
+          to: result.target,
+          found: result.found,
+          hops: result.found ? result.edges.length : null,
+          path: result.nodes,
+          edges: result.edges,
+          expanded_count: result.expandedCount,
+          budget_exhausted: result.budgetExhausted,
+          failures: result.failures,
+        });
+      } catch (error) {
+        return toolError(toUserFacingError(error, { operation: "find_path", target }));
+      }
+    },
+  );
+
+  registerTool(
+    "compare_channels",
+    {
+      title: "Compare Channels",
+      description:
+        "Compare 2-10 channels: blocks in common, blocks unique to each, Jaccard similarity, and source URLs saved in more than one channel.",
+      inputSchema: {
+        channels: z.array(z.string().min(1)).min(2).max(10),
+        max_items_per_channel: z.number().int().min(1).max(READ_ALL_MAX_ITEMS).optional(),
+      },
+      outputSchema: compareChannelsOutputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
+    },
+    async (args, extra) => {
+      const reportProgress = createProgressReporter(extra);
+      try {
+        const resolutions = await Promise.all(
+          args.channels.map((input) => resolveChannelFromInput(arenaClient, input, extra.signal)),
+        );
+        const seenIds = new Set<number>();
+        for (const [index, resolution] of resolutions.entries()) {
+          if (seenIds.has(resolution.channel.id)) {
+            throw new Error(
+              `Channel "${args.channels[index]}" resolves to a channel already in the list (id: ${resolution.channel.id}).`,
+            );
+          }
+          seenIds.add(resolution.channel.id);
+        }
+
+        const maxItems = args.max_items_per_channel ?? COMPARE_DEFAULT_MAX_ITEMS;
+        let pagesFetched = 0;
+        const snapshots = await Promise.all(
+          resolutions.map(async (resolution) => ({
+            channel: resolution.channel,
+            ...(await collectChannelContents(arenaClient, resolution.idOrSlug, maxItems, extra.signal, () => {
+              pagesFetched += 1;
+              reportProgress(pagesFetched, undefined, `Fetched ${pagesFetched} page(s)`);
+            })),
+          })),
+        );
+        const comparison = compareChannelSnapshots(snapshots);
+        return toolSuccess(formatChannelComparisonMarkdown(comparison), {
+          channels: comparison.channels,
+          common_block_ids: comparison.commonBlockIds,
+          shared_blocks: comparison.sharedBlocks,
+          shared_source_urls: comparison.sharedSourceUrls,
+          pairs: comparison.pairs,
+          jaccard: comparison.jaccard,
+          truncated: comparison.channels.some((channel) => channel.truncated),
+        });
+      } catch (error) {
+        return toolError(
+          toUserFacingError(error, { operation: "compare_channels", target: args.channels.join(", ") }),
+        );
+      }
+    },
+  );
+
+  registerTool(
     "get_block_details",
     {
       title: "Get Block Details",
@@ -205,18 +558,25 @@ export function registerReadTools(server: McpServer, deps: ReadToolDeps): void {
       inputSchema: {
         id: positiveInteger,
       },
+      outputSchema: getBlockDetailsOutputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async (args) => {
+    async (args, extra) => {
+      const reportProgress = createProgressReporter(extra);
       try {
-        const block = await arenaClient.getBlock(args.id);
-        const connections = await arenaClient.getBlockConnections({ id: args.id, page: 1 });
+        const block = await arenaClient.getBlock(args.id, extra.signal);
+        const connections = await arenaClient.getBlockConnections({ id: args.id, page: 1 }, extra.signal);
         const imageUrls = extractImageUrlsFromBlock(block, 1);
         const imageTargets = extractImageTargetsFromBlock(block, 1);
+        reportProgress(1, 1 + imageTargets.length, "Fetched block details");
         const { content: imageContent, summary: imageFetchSummary } = await buildImageContentWithSummary(
           imageTargets,
           {
             maxImages: 1,
             ...imageFetchOptions,
+            signal: extra.signal,
+            onProgress: (completed, total) =>
+              reportProgress(1 + completed, 1 + total, `Fetched ${completed} of ${total} image(s)`),
           },
         );
         return toolSuccess(formatBlockMarkdown(block, connections.data), {
@@ -232,7 +592,7 @@ export function registerReadTools(server: McpServer, deps: ReadToolDeps): void {
     },
   );
 
-  server.registerTool(
+  registerTool(
     "get_block_connections",
     {
       title: "Get Block Connections",
@@ -244,16 +604,21 @@ export function registerReadTools(server: McpServer, deps: ReadToolDeps): void {
         sort: z.enum(CONNECTION_SORT_VALUES).optional(),
         filter: z.enum(CONNECTION_FILTER_VALUES).optional(),
       },
+      outputSchema: getBlockConnectionsOutputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async (args) => {
+    async (args, extra) => {
       try {
-        const result = await arenaClient.getBlockConnections({
-          id: args.id,
-          page: args.page,
-          per: args.per,
-          sort: args.sort,
-          filter: args.filter,
-        });
+        const result = await arenaClient.getBlockConnections(
+          {
+            id: args.id,
+            page: args.page,
+            per: args.per,
+            sort: args.sort,
+            filter: args.filter,
+          },
+          extra.signal,
+        );
         const text = [
           `Block ${args.id} appears in ${result.meta.totalCount} channels.`,
           ...result.data.map((channel) => `- ${channel.title} (slug: ${channel.slug}, id: ${channel.id})`),
@@ -270,7 +635,7 @@ export function registerReadTools(server: McpServer, deps: ReadToolDeps): void {
     },
   );
 
-  server.registerTool(
+  registerTool(
     "get_user",
     {
       title: "Get User",
@@ -278,11 +643,13 @@ export function registerReadTools(server: McpServer, deps: ReadToolDeps): void {
       inputSchema: {
         id_or_slug: z.string().min(1),
       },
+      outputSchema: getUserOutputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async (args) => {
+    async (args, extra) => {
       try {
-        const user = await arenaClient.getUser(args.id_or_slug);
-        const contents = await arenaClient.getUserContents({ idOrSlug: args.id_or_slug, page: 1 });
+        const user = await arenaClient.getUser(args.id_or_slug, extra.signal);
+        const contents = await arenaClient.getUserContents({ idOrSlug: args.id_or_slug, page: 1 }, extra.signal);
         return toolSuccess(formatUserMarkdown(user, contents.data, contents.meta), {
           user,
           recent_contents: contents.data,
@@ -294,7 +661,7 @@ export function registerReadTools(server: McpServer, deps: ReadToolDeps): void {
     },
   );
 
-  server.registerTool(
+  registerTool(
     "get_user_contents",
     {
       title: "Get User Contents",
@@ -306,17 +673,22 @@ export function registerReadTools(server: McpServer, deps: ReadToolDeps): void {
         sort: z.enum(CONTENT_SORT_VALUES).optional(),
         type: z.enum(CONTENT_TYPE_FILTER_VALUES).optional(),
       },
+      outputSchema: getUserContentsOutputSchema,
+      annotations: READ_ONLY_ANNOTATIONS,
     },
-    async (args) => {
+    async (args, extra) => {
       try {
-        const user = await arenaClient.getUser(args.id_or_slug);
-        const result = await arenaClient.getUserContents({
-          idOrSlug: args.id_or_slug,
-          page: args.page,
-          per: args.per,
-          sort: args.sort,
-          type: args.type,
-        });
+        const user = await arenaClient.getUser(args.id_or_slug, extra.signal);
+        const result = await arenaClient.getUserContents(
+          {
+            idOrSlug: args.id_or_slug,
+            page: args.page,
+            per: args.per,
+            sort: args.sort,
+            type: args.type,
+          },
+          extra.signal,
+        );
         return toolSuccess(formatUserMarkdown(user, result.data, result.meta), {
           user,
           contents: result.data,
@@ -416,10 +788,77 @@ function buildNextPageSearchArgs(
   return Object.fromEntries(Object.entries(next).filter(([, value]) => value !== undefined));
 }
 
+async function collectChannelContents(
+  arenaClient: ArenaClient,
+  idOrSlug: string,
+  maxItems: number,
+  signal?: AbortSignal,
+  onPage?: () => void,
+): Promise<{ contents: NormalizedConnectable[]; truncated: boolean }> {
+  const contents: NormalizedConnectable[] = [];
+  for await (const page of arenaClient.iterateChannelContents({ idOrSlug, per: READ_ALL_PER }, signal)) {
+    onPage?.();
+    contents.push(...page.data);
+    if (contents.length >= maxItems) {
+      return {
+        contents: contents.slice(0, maxItems),
+        truncated: contents.length > maxItems || page.meta.hasMorePages,
+      };
+    }
+  }
+  return { contents, truncated: false };
+}
+
+async function resolveGraphEndpoint(
+  arenaClient: ArenaClient,
+  endpoint: { channel?: string; block_id?: number },
+  label: string,
+  signal?: AbortSignal,
+): Promise<NormalizedConnectable> {
+  if (endpoint.channel !== undefined && endpoint.block_id === undefined) {
+    return (await resolveChannelFromInput(arenaClient, endpoint.channel, signal)).channel;
+  }
+  if (endpoint.block_id !== undefined && endpoint.channel === undefined) {
+    return arenaClient.getBlock(endpoint.block_id, signal);
+  }
+  throw new Error(`Provide exactly one of channel or block_id for the ${label}.`);
+}
+
+function formatChannelCursor(page: number, offset: number): string {
+  return `${page}:${offset}`;
+}
+
+function parseChannelCursor(cursor: string | undefined): { page: number; offset: number } {
+  if (cursor === undefined || cursor.trim() === "") {
+    return { page: 1, offset: 0 };
+  }
+  const match = /^(\d+):(\d+)$/.exec(cursor.trim());
+  const page = match ? Number.parseInt(match[1] ?? "", 10) : Number.NaN;
+  const offset = match ? Number.parseInt(match[2] ?? "", 10) : Number.NaN;
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(offset)) {
+    throw new Error(`Invalid cursor "${cursor}". Pass next_cursor from a previous read_channel_all call.`);
+  }
+  return { page, offset };
+}
+
+function buildChannelResolutionSummary(
+  input: string,
+  resolution: ResolvedChannel,
+): Record<string, unknown> {
+  return {
+    input,
+    resolved_id_or_slug: resolution.idOrSlug,
+    strategy: resolution.strategy,
+    expected_owner_slug: resolution.expectedOwnerSlug,
+    actual_owner_slug: resolution.channel.owner?.slug ?? null,
+    search_source_api: resolution.searchSourceApi ?? null,
+  };
+}
+
 interface ResolvedChannel {
   channel: NormalizedChannel;
   idOrSlug: string;
-  strategy: "direct" | "url-extracted" | "search-exact-slug" | "search-exact-title" | "search-single";
+  strategy: ChannelResolutionStrategy;
   searchSourceApi?: "v3" | "v2-fallback";
   expectedOwnerSlug: string | null;
 }
@@ -524,12 +963,13 @@ function assertChannelOwnerMatch(
 async function resolveChannelFromInput(
   arenaClient: ArenaClient,
   rawInput: string,
+  signal?: AbortSignal,
 ): Promise<ResolvedChannel> {
   const { normalized, usedUrlExtraction, expectedOwnerSlug } = normalizeChannelInput(rawInput);
   const preferredIdOrSlug = normalized;
 
   try {
-    const channel = await arenaClient.getChannel(preferredIdOrSlug);
+    const channel = await arenaClient.getChannel(preferredIdOrSlug, signal);
     assertChannelOwnerMatch(channel, expectedOwnerSlug, rawInput);
     return {
       channel,
@@ -548,13 +988,16 @@ async function resolveChannelFromInput(
       throw error;
     }
 
-    const searchResult = await arenaClient.search({
-      query: rawInput.trim(),
-      type: "Channel",
-      scope: "my",
-      per: 10,
-      sort: "score_desc",
-    });
+    const searchResult = await arenaClient.search(
+      {
+        query: rawInput.trim(),
+        type: "Channel",
+        scope: "my",
+        per: 10,
+        sort: "score_desc",
+      },
+      signal,
+    );
     const channelCandidates = searchResult.items.filter(
       (item): item is NormalizedSearchItem & { entityType: "Channel" } => item.entityType === "Channel",
     );
@@ -569,7 +1012,7 @@ async function resolveChannelFromInput(
     if (exactSlugMatches.length === 1 && selectedBySlug) {
       const selected = selectedBySlug;
       const idOrSlug = selected.slug ?? String(selected.id);
-      const channel = await arenaClient.getChannel(idOrSlug);
+      const channel = await arenaClient.getChannel(idOrSlug, signal);
       assertChannelOwnerMatch(channel, expectedOwnerSlug, rawInput);
       return {
         channel,
@@ -587,7 +1030,7 @@ async function resolveChannelFromInput(
     if (exactTitleMatches.length === 1 && selectedByTitle) {
       const selected = selectedByTitle;
       const idOrSlug = selected.slug ?? String(selected.id);
-      const channel = await arenaClient.getChannel(idOrSlug);
+      const channel = await arenaClient.getChannel(idOrSlug, signal);
       assertChannelOwnerMatch(channel, expectedOwnerSlug, rawInput);
       return {
         channel,
@@ -602,7 +1045,7 @@ async function resolveChannelFromInput(
     if (channelCandidates.length === 1 && singleCandidate) {
       const selected = singleCandidate;
       const idOrSlug = selected.slug ?? String(selected.id);
-      const channel = await arenaClient.getChannel(idOrSlug);
+      const channel = await arenaClient.getChannel(idOrSlug, signal);
       assertChannelOwnerMatch(channel, expectedOwnerSlug, rawInput);
       return {
         channel,
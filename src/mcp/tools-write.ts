@@ -1,31 +1,253 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { ArenaClient } from "../arena/client.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { runBatchWrite } from "../arena/batch.js";
+import { arenaWriteRequests, type ArenaClient } from "../arena/client.js";
+import {
+  EMPTY_JOURNAL_IDS,
+  describeUndoRemoval,
+  lookupPreviousPosition,
+  undoLastWrites,
+  type WriteJournal,
+} from "../arena/journal.js";
 import {
   CHANNEL_VISIBILITY_VALUES,
   MOVE_CONNECTION_VALUES,
+  type ArenaWriteRequest,
+  type NormalizedBlock,
+  type NormalizedChannel,
+  type NormalizedConnectionResult,
+  type WriteJournalIds,
+  type WritePreview,
 } from "../arena/types.js";
 import {
+  assertDeleteConfirmation,
   buildConnectBlockPayload,
   buildCreateBlockPayload,
   buildCreateChannelPayload,
   buildMoveConnectionPayload,
+  buildUpdateBlockPayload,
+  buildUpdateChannelPayload,
 } from "../arena/payloads.js";
 import { toUserFacingError } from "../errors.js";
-import { toolError, toolSuccess } from "./tool-utils.js";
+import {
+  formatBatchWriteMarkdown,
+  formatUndoResultsMarkdown,
+  formatWritePreviewMarkdown,
+} from "../format/markdown.js";
+import {
+  batchWriteOutputSchema,
+  connectBlockOutputSchema,
+  createBlockOutputSchema,
+  createChannelOutputSchema,
+  deleteBlockOutputSchema,
+  deleteChannelOutputSchema,
+  disconnectConnectionOutputSchema,
+  moveConnectionOutputSchema,
+  undoLastWritesOutputSchema,
+  updateBlockOutputSchema,
+  updateChannelOutputSchema,
+} from "./output-schemas.js";
+import {
+  createToolRegistrar,
+  createToolSuccess,
+  requestUserConfirmation,
+  toolError,
+  type ToolExtra,
+} from "./tool-utils.js";
 
 interface WriteToolDeps {
   arenaClient: ArenaClient;
   requireWriteScope?: (extra: unknown) => string | null;
+  forceDryRun?: boolean;
+  writeJournal?: WriteJournal | null;
+  isToolEnabled?: (name: string) => boolean;
 }
 
+export const WRITE_TOOL_NAMES = [
+  "create_channel",
+  "update_channel",
+  "delete_channel",
+  "create_block",
+  "update_block",
+  "delete_block",
+  "connect_block",
+  "disconnect_connection",
+  "move_connection",
+  "batch_write",
+  "undo_last_writes",
+] as const;
+
 const positiveInteger = z.number().int().positive();
 const channelIdsSchema = z.array(positiveInteger).min(1).max(20);
+const dryRunSchema = z.boolean().optional();
+const confirmSchema = z.boolean().optional();
+const idReferenceSchema = z.union([positiveInteger, z.string().regex(/^\$\d+$/)]);
+const BATCH_MAX_OPERATIONS = 100;
+const BATCH_DEFAULT_CONCURRENCY = 1;
+const BATCH_MAX_CONCURRENCY = 8;
+const UNDO_DEFAULT_COUNT = 1;
+const UNDO_MAX_COUNT = 50;
+
+const batchOperationSchema = z.discriminatedUnion("op", [
+  z.object({
+    op: z.literal("create_channel"),
+    title: z.string().min(1),
+    visibility: z.enum(CHANNEL_VISIBILITY_VALUES).optional(),
+    description: z.string().optional(),
+    group_id: positiveInteger.optional(),
+  }),
+  z.object({
+    op: z.literal("create_block"),
+    value: z.string().min(1),
+    channel_ids: z.array(idReferenceSchema).min(1).max(20),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    original_source_url: z.string().url().optional(),
+    original_source_title: z.string().optional(),
+    alt_text: z.string().optional(),
+    insert_at: z.number().int().min(0).optional(),
+  }),
+  z.object({
+    op: z.literal("connect_block"),
+    block_id: idReferenceSchema,
+    channel_ids: z.array(idReferenceSchema).min(1).max(20),
+    position: z.number().int().min(0).optional(),
+  }),
+  z.object({
+    op: z.literal("disconnect_connection"),
+    connection_id: idReferenceSchema,
+  }),
+  z.object({
+    op: z.literal("move_connection"),
+    connection_id: idReferenceSchema,
+    movement: z.enum(MOVE_CONNECTION_VALUES),
+    position: z.number().int().min(0).optional(),
+  }),
+]);
+
+function describeBatchDisconnects(operations: Array<z.infer<typeof batchOperationSchema>>): string[] {
+  return operations.flatMap((operation) => {
+    if (operation.op !== "disconnect_connection") {
+      return [];
+    }
+    const { connection_id: connectionId } = operation;
+    return [
+      typeof connectionId === "number"
+        ? `connection ${connectionId}`
+        : `the connection created by step ${connectionId.slice(1)}`,
+    ];
+  });
+}
+
+function describeChannel(channel: NormalizedChannel): string {
+  return `channel "${channel.title}" (slug: ${channel.slug}, id: ${channel.id})`;
+}
+
+function describeBlock(block: NormalizedBlock): string {
+  return `${block.type} block ${block.id}${block.title ? ` "${block.title}"` : ""}`;
+}
+
+function formatDiffValue(value: unknown): string {
+  return value === null || value === undefined ? "(empty)" : JSON.stringify(value);
+}
+
+function describeFieldChanges(
+  current: Record<string, unknown>,
+  payload: Record<string, unknown>,
+): string[] {
+  return Object.entries(payload).flatMap(([field, next]) => {
+    const previous = current[field] ?? null;
+    if (previous === next) {
+      return [`  ${field}: ${formatDiffValue(next)} (unchanged)`];
+    }
+    return [`- ${field}: ${formatDiffValue(previous)}`, `+ ${field}: ${formatDiffValue(next)}`];
+  });
+}
+
+interface ResolvedConnection {
+  description: string;
+  block: NormalizedBlock | null;
+  channel: NormalizedChannel | null;
+}
+
+async function describeConnection(
+  arenaClient: ArenaClient,
+  connection: NormalizedConnectionResult,
+): Promise<ResolvedConnection> {
+  const [block, channel] = await Promise.all([
+    connection.connectableType === "Block" && connection.connectableId !== null
+      ? arenaClient.getBlock(connection.connectableId)
+      : null,
+    connection.channelId !== null ? arenaClient.getChannel(String(connection.channelId)) : null,
+  ]);
+  const subject = block ? describeBlock(block) : `connection ${connection.id}`;
+  const located = channel ? `${subject} in ${describeChannel(channel)}` : subject;
+  return { description: block ? `${located} (connection ${connection.id})` : located, block, channel };
+}
+
+async function resolveConnection(arenaClient: ArenaClient, connectionId: number): Promise<ResolvedConnection> {
+  try {
+    return await describeConnection(arenaClient, await arenaClient.getConnection(connectionId));
+  } catch {
+    // The lookup only labels the confirmation prompt; fall back to the bare id so the write can still proceed.
+    return { description: `connection ${connectionId}`, block: null, channel: null };
+  }
+}
+
+function resolveChannelIds(arenaClient: ArenaClient, channelIds: number[]): Promise<NormalizedChannel[]> {
+  return Promise.all(channelIds.map((id) => arenaClient.getChannel(String(id))));
+}
 
 export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void {
   const { arenaClient, requireWriteScope } = deps;
+  const toolSuccess = createToolSuccess(() => arenaClient.getRateLimitStatus());
+  const registerTool = createToolRegistrar<(typeof WRITE_TOOL_NAMES)[number]>(server, deps.isToolEnabled);
+  const writeJournal = deps.writeJournal ?? null;
+  const isDryRun = (args: { dry_run?: boolean }) => deps.forceDryRun === true || args.dry_run === true;
+  const dryRunResult = (
+    operation: string,
+    request: ArenaWriteRequest,
+    changes: string[],
+    resolved: Record<string, unknown> = {},
+  ): CallToolResult => {
+    const preview: WritePreview = { operation, request: arenaClient.previewRequest(request), changes };
+    return toolSuccess(formatWritePreviewMarkdown(preview), { dry_run: true, ...preview, resolved });
+  };
+  const confirmDestructiveWrite = async (
+    extra: ToolExtra,
+    operation: string,
+    action: string,
+    description: string,
+    confirmed: boolean,
+  ): Promise<string | null> => {
+    const outcome = await requestUserConfirmation(server, extra, `${action} ${description}? This cannot be undone.`);
+    if (outcome === "confirmed" || (outcome === "unsupported" && confirmed)) {
+      return null;
+    }
+    if (outcome === "declined") {
+      return `${operation} cancelled: the user did not confirm ${description}.`;
+    }
+    return `Confirmation required before ${operation} of ${description}. Verify this is the intended target, then call again with confirm: true.`;
+  };
+  const recordWrite = async (
+    operation: string,
+    input: Record<string, unknown>,
+    ids: Partial<WriteJournalIds>,
+    previousPosition: number | null = null,
+  ): Promise<void> => {
+    if (!writeJournal) {
+      return;
+    }
+    try {
+      await writeJournal.recordWrite({ operation, input, ids: { ...EMPTY_JOURNAL_IDS, ...ids }, previousPosition });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      process.stderr.write(`Failed to record ${operation} in the write journal: ${message}\n`);
+    }
+  };
 
-  server.registerTool(
+  registerTool(
     "create_channel",
     {
       title: "Create Channel",
@@ -35,6 +257,14 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
         visibility: z.enum(CHANNEL_VISIBILITY_VALUES).optional(),
         description: z.string().optional(),
         group_id: positiveInteger.optional(),
+        dry_run: dryRunSchema,
+      },
+      outputSchema: createChannelOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
       },
     },
     async (args, extra) => {
@@ -44,7 +274,13 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
       }
       try {
         const payload = buildCreateChannelPayload(args);
+        if (isDryRun(args)) {
+          return dryRunResult("create_channel", arenaWriteRequests.createChannel(payload), [
+            `+ channel "${args.title}" (visibility: ${String(payload.visibility)})`,
+          ]);
+        }
         const channel = await arenaClient.createChannel(payload);
+        await recordWrite("create_channel", args, { channelId: channel.id });
         const url = `https://www.are.na/channel/${channel.slug}`;
         return toolSuccess(`Created channel "${channel.title}" (${url}).`, {
           channel,
@@ -56,7 +292,120 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
     },
   );
 
-  server.registerTool(
+  registerTool(
+    "update_channel",
+    {
+      title: "Update Channel",
+      description: "Rename a channel, rewrite its description, or change its visibility.",
+      inputSchema: {
+        id_or_slug: z.string().min(1),
+        title: z.string().min(1).optional(),
+        visibility: z.enum(CHANNEL_VISIBILITY_VALUES).optional(),
+        description: z.string().optional(),
+        dry_run: dryRunSchema,
+      },
+      outputSchema: updateChannelOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (args, extra) => {
+      const denied = requireWriteScope?.(extra);
+      if (denied) {
+        return toolError(denied);
+      }
+      try {
+        const payload = buildUpdateChannelPayload(args);
+        if (isDryRun(args)) {
+          const channel = await arenaClient.getChannel(args.id_or_slug);
+          const current = {
+            title: channel.title,
+            visibility: channel.visibility,
+            description: channel.description?.markdown ?? null,
+          };
+          return dryRunResult(
+            "update_channel",
+            arenaWriteRequests.updateChannel(args.id_or_slug, payload),
+            [`  ${describeChannel(channel)}`, ...describeFieldChanges(current, payload)],
+            { channel },
+          );
+        }
+        const channel = await arenaClient.updateChannel(args.id_or_slug, payload);
+        await recordWrite("update_channel", args, { channelId: channel.id });
+        const url = `https://www.are.na/channel/${channel.slug}`;
+        return toolSuccess(
+          `Updated channel "${channel.title}" (${url}): ${Object.keys(payload).join(", ")}.`,
+          { channel, url, updated_fields: Object.keys(payload) },
+        );
+      } catch (error) {
+        return toolError(toUserFacingError(error, { operation: "update_channel", target: args.id_or_slug }));
+      }
+    },
+  );
+
+  registerTool(
+    "delete_channel",
+    {
+      title: "Delete Channel",
+      description:
+        "Permanently delete a channel. Requires confirm_slug to exactly match the channel's slug, and asks the user to confirm when the client supports elicitation.",
+      inputSchema: {
+        id_or_slug: z.string().min(1),
+        confirm_slug: z.string().min(1),
+        dry_run: dryRunSchema,
+      },
+      outputSchema: deleteChannelOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (args, extra) => {
+      const denied = requireWriteScope?.(extra);
+      if (denied) {
+        return toolError(denied);
+      }
+      try {
+        const channel = await arenaClient.getChannel(args.id_or_slug);
+        assertDeleteConfirmation(channel.slug, args.confirm_slug);
+        const contents = channel.counts ? ` with ${channel.counts.contents} items` : "";
+        if (isDryRun(args)) {
+          return dryRunResult(
+            "delete_channel",
+            arenaWriteRequests.deleteChannel(String(channel.id)),
+            [`- ${describeChannel(channel)}${contents}`],
+            { channel },
+          );
+        }
+        const notConfirmed = await confirmDestructiveWrite(
+          extra,
+          "delete_channel",
+          "Delete",
+          `${describeChannel(channel)}${contents}`,
+          true,
+        );
+        if (notConfirmed) {
+          return toolError(notConfirmed);
+        }
+        await arenaClient.deleteChannel(String(channel.id));
+        await recordWrite("delete_channel", args, { channelId: channel.id });
+        return toolSuccess(`Deleted channel "${channel.title}" (${channel.slug}).`, {
+          channel_id: channel.id,
+          slug: channel.slug,
+          deleted: true,
+        });
+      } catch (error) {
+        return toolError(toUserFacingError(error, { operation: "delete_channel", target: args.id_or_slug }));
+      }
+    },
+  );
+
+  registerTool(
     "create_block",
     {
       title: "Create Block",
@@ -71,6 +420,14 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
         original_source_title: z.string().optional(),
         alt_text: z.string().optional(),
         insert_at: z.number().int().min(0).optional(),
+        dry_run: dryRunSchema,
+      },
+      outputSchema: createBlockOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
       },
     },
     async (args, extra) => {
@@ -80,7 +437,19 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
       }
       try {
         const payload = buildCreateBlockPayload(args);
+        if (isDryRun(args)) {
+          const channels = await resolveChannelIds(arenaClient, args.channel_ids);
+          return dryRunResult(
+            "create_block",
+            arenaWriteRequests.createBlock(payload),
+            channels.map(
+              (channel) => `+ block ${formatDiffValue(args.title ?? args.value)} in ${describeChannel(channel)}`,
+            ),
+            { channels },
+          );
+        }
         const block = await arenaClient.createBlock(payload);
+        await recordWrite("create_block", args, { blockId: block.id });
         return toolSuccess(
           `Created ${block.type} block ${block.id}${block.title ? ` (${block.title})` : ""}.`,
           { block },
@@ -91,7 +460,123 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
     },
   );
 
-  server.registerTool(
+  registerTool(
+    "update_block",
+    {
+      title: "Update Block",
+      description:
+        "Update the title, description, content, alt text, or source of an existing block. Only provided fields change.",
+      inputSchema: {
+        block_id: positiveInteger,
+        title: z.string().optional(),
+        description: z.string().optional(),
+        content: z.string().optional(),
+        alt_text: z.string().optional(),
+        original_source_url: z.string().url().optional(),
+        original_source_title: z.string().optional(),
+        dry_run: dryRunSchema,
+      },
+      outputSchema: updateBlockOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (args, extra) => {
+      const denied = requireWriteScope?.(extra);
+      if (denied) {
+        return toolError(denied);
+      }
+      try {
+        const payload = buildUpdateBlockPayload(args);
+        if (isDryRun(args)) {
+          const block = await arenaClient.getBlock(args.block_id);
+          const current = {
+            title: block.title,
+            description: block.description?.markdown ?? null,
+            content: block.content?.markdown ?? null,
+            alt_text: block.image?.altText ?? null,
+            original_source_url: block.sourceUrl,
+            original_source_title: block.sourceTitle,
+          };
+          return dryRunResult(
+            "update_block",
+            arenaWriteRequests.updateBlock(args.block_id, payload),
+            [`  ${describeBlock(block)}`, ...describeFieldChanges(current, payload)],
+            { block },
+          );
+        }
+        const block = await arenaClient.updateBlock(args.block_id, payload);
+        await recordWrite("update_block", args, { blockId: block.id });
+        return toolSuccess(
+          `Updated ${block.type} block ${block.id}${block.title ? ` (${block.title})` : ""}: ${Object.keys(payload).join(", ")}.`,
+          { block, updated_fields: Object.keys(payload) },
+        );
+      } catch (error) {
+        return toolError(toUserFacingError(error, { operation: "update_block", target: args.block_id }));
+      }
+    },
+  );
+
+  registerTool(
+    "delete_block",
+    {
+      title: "Delete Block",
+      description:
+        "Permanently delete a block you own. This removes it from every channel it is connected to. Asks the user to confirm when the client supports elicitation; otherwise requires confirm: true.",
+      inputSchema: {
+        block_id: positiveInteger,
+        confirm: confirmSchema,
+        dry_run: dryRunSchema,
+      },
+      outputSchema: deleteBlockOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (args, extra) => {
+      const denied = requireWriteScope?.(extra);
+      if (denied) {
+        return toolError(denied);
+      }
+      try {
+        const block = await arenaClient.getBlock(args.block_id);
+        if (isDryRun(args)) {
+          return dryRunResult(
+            "delete_block",
+            arenaWriteRequests.deleteBlock(args.block_id),
+            [`- ${describeBlock(block)}`],
+            { block },
+          );
+        }
+        const notConfirmed = await confirmDestructiveWrite(
+          extra,
+          "delete_block",
+          "Delete",
+          describeBlock(block),
+          args.confirm === true,
+        );
+        if (notConfirmed) {
+          return toolError(notConfirmed);
+        }
+        await arenaClient.deleteBlock(args.block_id);
+        await recordWrite("delete_block", args, { blockId: args.block_id });
+        return toolSuccess(`Deleted block ${args.block_id}.`, {
+          block_id: args.block_id,
+          deleted: true,
+        });
+      } catch (error) {
+        return toolError(toUserFacingError(error, { operation: "delete_block", target: args.block_id }));
+      }
+    },
+  );
+
+  registerTool(
     "connect_block",
     {
       title: "Connect Block",
@@ -100,6 +585,14 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
         block_id: positiveInteger,
         channel_ids: channelIdsSchema,
         position: z.number().int().min(0).optional(),
+        dry_run: dryRunSchema,
+      },
+      outputSchema: connectBlockOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
       },
     },
     async (args, extra) => {
@@ -109,23 +602,50 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
       }
       try {
         const payload = buildConnectBlockPayload(args);
-        const connection = await arenaClient.connectBlock(payload);
-        return toolSuccess(`Connected block ${args.block_id}. Connection ID: ${connection.id}.`, {
-          connection,
-        });
+        if (isDryRun(args)) {
+          const [block, channels] = await Promise.all([
+            arenaClient.getBlock(args.block_id),
+            resolveChannelIds(arenaClient, args.channel_ids),
+          ]);
+          return dryRunResult(
+            "connect_block",
+            arenaWriteRequests.connectBlock(payload),
+            channels.map((channel) => `+ ${describeBlock(block)} in ${describeChannel(channel)}`),
+            { block, channels },
+          );
+        }
+        const connections = await arenaClient.connectBlock(payload);
+        for (const connection of connections) {
+          await recordWrite("connect_block", args, { blockId: args.block_id, connectionId: connection.id });
+        }
+        const connectionIds = connections.map((connection) => connection.id).join(", ");
+        return toolSuccess(
+          `Connected block ${args.block_id}. Connection ID${connections.length > 1 ? "s" : ""}: ${connectionIds}.`,
+          { connection: connections[0], connections },
+        );
       } catch (error) {
         return toolError(toUserFacingError(error, { operation: "connect_block", target: args.block_id }));
       }
     },
   );
 
-  server.registerTool(
+  registerTool(
     "disconnect_connection",
     {
       title: "Disconnect Connection",
-      description: "Remove a connection by ID.",
+      description:
+        "Remove a connection by ID. Asks the user to confirm the resolved block and channel when the client supports elicitation; otherwise requires confirm: true.",
       inputSchema: {
         connection_id: positiveInteger,
+        confirm: confirmSchema,
+        dry_run: dryRunSchema,
+      },
+      outputSchema: disconnectConnectionOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
       },
     },
     async (args, extra) => {
@@ -134,7 +654,27 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
         return toolError(denied);
       }
       try {
+        const { description, block, channel } = await resolveConnection(arenaClient, args.connection_id);
+        if (isDryRun(args)) {
+          return dryRunResult(
+            "disconnect_connection",
+            arenaWriteRequests.disconnectConnection(args.connection_id),
+            [`- ${description}`],
+            { ...(block ? { block } : {}), ...(channel ? { channel } : {}) },
+          );
+        }
+        const notConfirmed = await confirmDestructiveWrite(
+          extra,
+          "disconnect_connection",
+          "Disconnect",
+          description,
+          args.confirm === true,
+        );
+        if (notConfirmed) {
+          return toolError(notConfirmed);
+        }
         await arenaClient.disconnectConnection(args.connection_id);
+        await recordWrite("disconnect_connection", args, { connectionId: args.connection_id });
         return toolSuccess(`Disconnected connection ${args.connection_id}.`, {
           connection_id: args.connection_id,
           disconnected: true,
@@ -147,7 +687,7 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
     },
   );
 
-  server.registerTool(
+  registerTool(
     "move_connection",
     {
       title: "Move Connection",
@@ -156,6 +696,14 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
         connection_id: positiveInteger,
         movement: z.enum(MOVE_CONNECTION_VALUES),
         position: z.number().int().min(0).optional(),
+        dry_run: dryRunSchema,
+      },
+      outputSchema: moveConnectionOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
       },
     },
     async (args, extra) => {
@@ -165,7 +713,23 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
       }
       try {
         const payload = buildMoveConnectionPayload(args);
+        if (isDryRun(args)) {
+          const current = await arenaClient.getConnection(args.connection_id);
+          const { description, block, channel } = await describeConnection(arenaClient, current);
+          const position = current.position !== null ? ` at position ${current.position}` : "";
+          const target = args.movement === "insert_at" ? ` at position ${args.position}` : "";
+          return dryRunResult(
+            "move_connection",
+            arenaWriteRequests.moveConnection(args.connection_id, payload),
+            [`  ${description}${position}`, `+ ${args.movement}${target}`],
+            { ...(block ? { block } : {}), ...(channel ? { channel } : {}) },
+          );
+        }
+        const previousPosition = writeJournal
+          ? await lookupPreviousPosition(arenaClient, args.connection_id, args.movement)
+          : null;
         const connection = await arenaClient.moveConnection(args.connection_id, payload);
+        await recordWrite("move_connection", args, { connectionId: args.connection_id }, previousPosition);
         return toolSuccess(`Moved connection ${args.connection_id} using ${args.movement}.`, {
           connection,
         });
@@ -174,4 +738,151 @@ export function registerWriteTools(server: McpServer, deps: WriteToolDeps): void
       }
     },
   );
+
+  registerTool(
+    "batch_write",
+    {
+      title: "Batch Write",
+      description:
+        'Run an ordered list of create_channel/create_block/connect_block/disconnect_connection/move_connection operations. Steps run one at a time in order unless concurrency > 1, in which case independent steps may run in parallel and land in any order. Use "$N" in place of an id to reference the channel, block, or connection created by step N. Batches that disconnect connections ask the user to confirm when the client supports elicitation; otherwise they require confirm: true.',
+      inputSchema: {
+        operations: z.array(batchOperationSchema).min(1).max(BATCH_MAX_OPERATIONS),
+        concurrency: z.number().int().min(1).max(BATCH_MAX_CONCURRENCY).optional(),
+        confirm: confirmSchema,
+        dry_run: dryRunSchema,
+      },
+      outputSchema: batchWriteOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (args, extra) => {
+      const denied = requireWriteScope?.(extra);
+      if (denied) {
+        return toolError(denied);
+      }
+      try {
+        const dryRun = isDryRun(args);
+        const disconnects = describeBatchDisconnects(args.operations);
+        if (!dryRun && disconnects.length > 0) {
+          const notConfirmed = await confirmDestructiveWrite(
+            extra,
+            "batch_write",
+            "Disconnect",
+            disconnects.join(", "),
+            args.confirm === true,
+          );
+          if (notConfirmed) {
+            return toolError(notConfirmed);
+          }
+        }
+        const result = await runBatchWrite(arenaClient, {
+          operations: args.operations,
+          concurrency: args.concurrency ?? BATCH_DEFAULT_CONCURRENCY,
+          dryRun,
+          recordPreviousPositions: writeJournal !== null,
+        });
+        for (const step of result.steps) {
+          const operation = args.operations[step.step - 1];
+          if (step.status === "succeeded" && operation) {
+            for (const ids of step.journalIds) {
+              await recordWrite(step.op, operation, ids, step.previousPosition);
+            }
+          }
+        }
+        return toolSuccess(formatBatchWriteMarkdown(result), {
+          dry_run: result.dryRun,
+          succeeded_count: result.succeededCount,
+          failed_count: result.failedCount,
+          skipped_count: result.skippedCount,
+          steps: result.steps.map((step) => ({
+            step: step.step,
+            op: step.op,
+            status: step.status,
+            created_id: step.createdId,
+            created_type: step.createdType,
+            result: step.result,
+            request: step.request,
+            error: step.error,
+          })),
+        });
+      } catch (error) {
+        return toolError(toUserFacingError(error, { operation: "batch_write" }));
+      }
+    },
+  );
+
+  registerTool(
+    "undo_last_writes",
+    {
+      title: "Undo Last Writes",
+      description:
+        "Reverse the most recent journaled writes, newest first: delete created channels and blocks, disconnect created connections, and move connections back to where they were. Deletes, disconnects, and updates cannot be reversed. Asks the user to confirm deletions and disconnections when the client supports elicitation; otherwise requires confirm: true.",
+      inputSchema: {
+        count: z.number().int().min(1).max(UNDO_MAX_COUNT).optional(),
+        confirm: confirmSchema,
+        dry_run: dryRunSchema,
+      },
+      outputSchema: undoLastWritesOutputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (args, extra) => {
+      const denied = requireWriteScope?.(extra);
+      if (denied) {
+        return toolError(denied);
+      }
+      if (!writeJournal) {
+        return toolError(
+          "The write journal is disabled. Set ARENA_WRITE_JOURNAL_ENABLED=true to record writes that can be undone.",
+        );
+      }
+      try {
+        const dryRun = isDryRun(args);
+        const entries = await writeJournal.listUndoable(args.count ?? UNDO_DEFAULT_COUNT);
+        if (!dryRun) {
+          const removals = entries.flatMap((entry) => {
+            const removal = entry.undo ? describeUndoRemoval(entry.undo) : null;
+            return removal ? [removal] : [];
+          });
+          if (removals.length > 0) {
+            const notConfirmed = await confirmDestructiveWrite(
+              extra,
+              "undo_last_writes",
+              "Undo",
+              `the last journaled writes (${removals.join(", ")})`,
+              args.confirm === true,
+            );
+            if (notConfirmed) {
+              return toolError(notConfirmed);
+            }
+          }
+        }
+        const results = await undoLastWrites(arenaClient, writeJournal, { entries, dryRun });
+        return toolSuccess(formatUndoResultsMarkdown(results, dryRun), {
+          dry_run: dryRun,
+          journal_path: writeJournal.filePath,
+          results: results.map((result) => ({
+            entry_id: result.entry.id,
+            operation: result.entry.operation,
+            recorded_at: result.entry.recordedAt,
+            ids: result.entry.ids,
+            status: result.status,
+            undo: result.entry.undo,
+            request: result.request,
+            error: result.error,
+          })),
+        });
+      } catch (error) {
+        return toolError(toUserFacingError(error, { operation: "undo_last_writes" }));
+      }
+    },
+  );
 }
@@ -1,18 +1,27 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { ServerConfig } from "./config.js";
 import { ArenaClient } from "./arena/client.js";
+import { WriteJournal } from "./arena/journal.js";
+import { createArenaCompleter } from "./mcp/completions.js";
+import { buildInventory, formatInventory, isToolEnabled } from "./mcp/inventory.js";
 import { registerPrompts } from "./mcp/prompts.js";
 import { registerResources } from "./mcp/resources.js";
+import { SubscriptionRegistry, registerSubscriptions } from "./mcp/subscriptions.js";
 import { registerReadTools } from "./mcp/tools-read.js";
 import { registerWriteTools } from "./mcp/tools-write.js";
 
 interface CreateServerDeps {
   arenaClient?: ArenaClient;
   requireWriteScope?: (extra: unknown) => string | null;
+  writeJournal?: WriteJournal;
+  subscriptions?: SubscriptionRegistry | null;
+  log?: (line: string) => void;
 }
 
 export function createArenaMcpServer(config: ServerConfig, deps: CreateServerDeps = {}): McpServer {
   const arenaClient = deps.arenaClient ?? new ArenaClient(config);
+  const writeJournal =
+    deps.writeJournal ?? (config.arenaWriteJournalPath ? new WriteJournal(config.arenaWriteJournalPath) : null);
   const imageFetchOptions = {
     timeoutMs: config.arenaImageFetchTimeoutMs,
     maxBytes: config.arenaImageFetchMaxBytes,
@@ -20,6 +29,8 @@ export function createArenaMcpServer(config: ServerConfig, deps: CreateServerDep
     userAgent: config.arenaImageFetchUserAgent,
   };
 
+  const completer = createArenaCompleter(arenaClient);
+
   const server = new McpServer(
     {
       name: "arena-mcp-server",
@@ -34,14 +45,37 @@ export function createArenaMcpServer(config: ServerConfig, deps: CreateServerDep
     },
   );
 
-  registerResources(server, { arenaClient, imageFetchOptions });
+  const isEnabled = (name: string) => isToolEnabled(config, name);
+  registerResources(server, { arenaClient, imageFetchOptions, completer });
+  if (deps.subscriptions !== null) {
+    const subscriptions =
+      deps.subscriptions ??
+      new SubscriptionRegistry(arenaClient, { intervalMs: config.arenaSubscriptionPollIntervalMs });
+    registerSubscriptions(server, subscriptions);
+    server.server.onclose = () => subscriptions.close();
+  }
   registerReadTools(server, {
     arenaClient,
     searchFallbackEnabled: config.arenaEnableV2SearchFallback,
     imageFetchOptions,
+    isToolEnabled: isEnabled,
   });
-  registerWriteTools(server, { arenaClient, requireWriteScope: deps.requireWriteScope });
-  registerPrompts(server);
+  if (!config.arenaReadOnly) {
+    registerWriteTools(server, {
+      arenaClient,
+      requireWriteScope: deps.requireWriteScope,
+      forceDryRun: config.arenaWriteDryRun,
+      writeJournal,
+      isToolEnabled: isEnabled,
+    });
+  }
+  registerPrompts(server, { completer, isToolEnabled: isEnabled });
+
+  if (deps.log) {
+    for (const line of formatInventory(buildInventory(config), config)) {
+      deps.log(line);
+    }
+  }
 
   return server;
 }
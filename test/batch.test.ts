@@ -0,0 +1,294 @@
+import { describe, expect, it, vi } from "vitest";
+import { type BatchWriteClient, runBatchWrite, validateBatchReferences } from "../src/arena/batch.js";
+import { ArenaApiError } from "../src/errors.js";
+import type {
+  ArenaWriteRequest,
+  NormalizedBlock,
+  NormalizedChannel,
+  NormalizedConnectionResult,
+} from "../src/arena/types.js";
+
+function makeChannel(id: number, title = `Channel ${id}`): NormalizedChannel {
+  return {
+    type: "Channel",
+    id,
+    slug: title.toLowerCase(),
+    title,
+    description: null,
+    state: "available",
+    visibility: "public",
+    createdAt: null,
+    updatedAt: null,
+    owner: null,
+    counts: null,
+    connection: null,
+  };
+}
+
+function makeBlock(id: number, title: string | null = null): NormalizedBlock {
+  return {
+    type: "Link",
+    id,
+    title,
+    description: null,
+    state: "available",
+    visibility: "public",
+    commentCount: 0,
+    createdAt: null,
+    updatedAt: null,
+    user: null,
+    sourceUrl: null,
+    sourceTitle: null,
+    content: null,
+    image: null,
+    attachment: null,
+    embed: null,
+    connection: null,
+  };
+}
+
+function makeConnection(id: number, position: number | null = null): NormalizedConnectionResult {
+  return { id, connectableId: null, connectableType: null, channelId: null, position, createdAt: null, raw: {} };
+}
+
+function makeBatchClient() {
+  let nextId = 100;
+  return {
+    createChannel: vi.fn(async (input: Record<string, unknown>) => makeChannel(++nextId, String(input.title))),
+    createBlock: vi.fn(async (input: Record<string, unknown>) => makeBlock(++nextId, String(input.value))),
+    connectBlock: vi.fn(async (input: Record<string, unknown>): ReturnType<BatchWriteClient["connectBlock"]> => {
+      const [, ...otherChannels] = input.channel_ids as number[];
+      return [makeConnection(++nextId), ...otherChannels.map(() => makeConnection(++nextId))];
+    }),
+    disconnectConnection: vi.fn(async () => undefined),
+    moveConnection: vi.fn(async (connectionId: number) => makeConnection(connectionId)),
+    getConnection: vi.fn(async (connectionId: number) => makeConnection(connectionId, 2)),
+    getChannel: vi.fn(async (idOrSlug: string) => makeChannel(Number(idOrSlug))),
+    getBlock: vi.fn(async (blockId: number) => makeBlock(blockId)),
+    previewRequest: vi.fn((request: ArenaWriteRequest) => ({
+      method: request.method,
+      url: `https://api.are.na${request.path}`,
+      headers: {},
+      body: request.body,
+    })),
+  } satisfies BatchWriteClient;
+}
+
+describe("batch write", () => {
+  it("feeds ids created by earlier steps into later operations", async () => {
+    const client = makeBatchClient();
+
+    const result = await runBatchWrite(client, {
+      operations: [
+        { op: "create_channel", title: "Reading List" },
+        { op: "create_block", value: "https://example.com/a", channel_ids: ["$1"] },
+        { op: "create_block", value: "https://example.com/b", channel_ids: ["$1", 7] },
+        { op: "connect_block", block_id: "$2", channel_ids: [8] },
+        { op: "move_connection", connection_id: "$4", movement: "move_to_top" },
+      ],
+      concurrency: 3,
+      dryRun: false,
+    });
+
+    expect(result.steps.map((step) => step.status)).toEqual([
+      "succeeded",
+      "succeeded",
+      "succeeded",
+      "succeeded",
+      "succeeded",
+    ]);
+    const channelId = result.steps[0]?.createdId;
+    expect(client.createBlock).toHaveBeenCalledWith(
+      expect.objectContaining({ value: "https://example.com/b", channel_ids: [channelId, 7] }),
+    );
+    expect(client.connectBlock).toHaveBeenCalledWith(
+      expect.objectContaining({ connectable_id: result.steps[1]?.createdId, channel_ids: [8] }),
+    );
+    expect(client.moveConnection).toHaveBeenCalledWith(result.steps[3]?.createdId, { movement: "move_to_top" });
+    expect(result.succeededCount).toBe(5);
+  });
+
+  it("runs steps strictly in order at concurrency 1", async () => {
+    const client = makeBatchClient();
+    const events: string[] = [];
+    client.moveConnection.mockImplementation(async (connectionId: number) => {
+      events.push(`start ${connectionId}`);
+      await new Promise((resolve) => setTimeout(resolve, connectionId === 1 ? 20 : 0));
+      events.push(`end ${connectionId}`);
+      return makeConnection(connectionId);
+    });
+
+    await runBatchWrite(client, {
+      operations: [
+        { op: "move_connection", connection_id: 1, movement: "move_to_top" },
+        { op: "move_connection", connection_id: 2, movement: "move_to_top" },
+      ],
+      concurrency: 1,
+      dryRun: false,
+    });
+
+    expect(events).toEqual(["start 1", "end 1", "start 2", "end 2"]);
+  });
+
+  it("returns journal ids for every connection a multi-channel connect_block creates", async () => {
+    const client = makeBatchClient();
+
+    const result = await runBatchWrite(client, {
+      operations: [{ op: "connect_block", block_id: 9, channel_ids: [1, 2, 3] }],
+      concurrency: 1,
+      dryRun: false,
+    });
+
+    const connectionIds = result.steps[0]?.journalIds.map((ids) => [ids.blockId, ids.connectionId]);
+    expect(connectionIds).toEqual([
+      [9, 101],
+      [9, 102],
+      [9, 103],
+    ]);
+    expect(result.steps[0]?.createdId).toBe(101);
+  });
+
+  it("looks up the previous position of absolute moves only when asked to record it", async () => {
+    const client = makeBatchClient();
+    const operations = [
+      { op: "move_connection" as const, connection_id: 1, movement: "move_to_bottom" as const },
+      { op: "move_connection" as const, connection_id: 2, movement: "move_up" as const },
+    ];
+
+    const untracked = await runBatchWrite(client, { operations, concurrency: 1, dryRun: false });
+    expect(untracked.steps.map((step) => step.previousPosition)).toEqual([null, null]);
+    expect(client.getConnection).not.toHaveBeenCalled();
+
+    const tracked = await runBatchWrite(client, {
+      operations,
+      concurrency: 1,
+      dryRun: false,
+      recordPreviousPositions: true,
+    });
+    expect(tracked.steps.map((step) => step.previousPosition)).toEqual([2, null]);
+    expect(client.getConnection).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports failures and skips steps that depend on them", async () => {
+    const client = makeBatchClient();
+    client.createChannel.mockRejectedValueOnce(
+      new ArenaApiError({
+        message: "Forbidden",
+        status: 403,
+        responseBody: null,
+        url: "https://api.are.na/v3/channels",
+      }),
+    );
+
+    const result = await runBatchWrite(client, {
+      operations: [
+        { op: "create_channel", title: "Fails" },
+        { op: "create_block", value: "Note", channel_ids: ["$1"] },
+        { op: "disconnect_connection", connection_id: 55 },
+      ],
+      concurrency: 1,
+      dryRun: false,
+    });
+
+    expect(result.steps[0]).toMatchObject({ status: "failed" });
+    expect(result.steps[0]?.error).toContain("Access denied for create_channel (step 1)");
+    expect(result.steps[1]).toMatchObject({ status: "skipped", error: "Skipped because step 1 did not succeed." });
+    expect(result.steps[2]).toMatchObject({ status: "succeeded" });
+    expect(client.createBlock).not.toHaveBeenCalled();
+    expect([result.succeededCount, result.failedCount, result.skippedCount]).toEqual([1, 1, 1]);
+  });
+
+  it("previews requests without writing in dry-run mode", async () => {
+    const client = makeBatchClient();
+
+    const result = await runBatchWrite(client, {
+      operations: [
+        { op: "create_block", value: "Note", channel_ids: [3] },
+        { op: "connect_block", block_id: "$1", channel_ids: [4] },
+      ],
+      concurrency: 2,
+      dryRun: true,
+    });
+
+    expect(result.steps[0]).toMatchObject({
+      status: "dry_run",
+      request: { method: "POST", url: "https://api.are.na/v3/blocks", body: { value: "Note", channel_ids: [3] } },
+    });
+    expect(result.steps[1]?.status).toBe("skipped");
+    expect(client.createBlock).not.toHaveBeenCalled();
+    expect(client.getChannel).toHaveBeenCalledWith("3");
+  });
+
+  it("fails dry-run steps whose targets do not exist", async () => {
+    const client = makeBatchClient();
+    client.getConnection.mockRejectedValueOnce(
+      new ArenaApiError({
+        message: "Not Found",
+        status: 404,
+        responseBody: null,
+        url: "https://api.are.na/v3/connections/55",
+      }),
+    );
+
+    const result = await runBatchWrite(client, {
+      operations: [
+        { op: "move_connection", connection_id: 55, movement: "move_to_top" },
+        { op: "connect_block", block_id: 9, channel_ids: [3, 4] },
+      ],
+      concurrency: 1,
+      dryRun: true,
+    });
+
+    expect(result.steps.map((step) => step.status)).toEqual(["failed", "dry_run"]);
+    expect(result.steps[0]?.error).toMatch(/not found/i);
+    expect(result.steps[0]?.request).toBeNull();
+    expect(client.getBlock).toHaveBeenCalledWith(9);
+    expect(client.getChannel.mock.calls).toEqual([["3"], ["4"]]);
+    expect(client.moveConnection).not.toHaveBeenCalled();
+  });
+
+  it("rejects references to later steps or steps without ids", () => {
+    expect(() =>
+      validateBatchReferences([{ op: "create_block", value: "Note", channel_ids: ["$2"] }]),
+    ).toThrow("only earlier steps");
+    expect(() =>
+      validateBatchReferences([
+        { op: "disconnect_connection", connection_id: 5 },
+        { op: "move_connection", connection_id: "$1", movement: "move_up" },
+      ]),
+    ).toThrow("does not produce an id");
+  });
+
+  it("rejects references whose step produces the wrong kind of id", () => {
+    const createChannel = { op: "create_channel" as const, title: "Channel" };
+    const createBlock = { op: "create_block" as const, value: "Note", channel_ids: [3] };
+    const connectBlock = { op: "connect_block" as const, block_id: 9, channel_ids: [3] };
+
+    expect(() =>
+      validateBatchReferences([createBlock, { op: "create_block", value: "Other", channel_ids: ["$1"] }]),
+    ).toThrow("channel_ids references step 1 (create_block), which produces a block id");
+    expect(() =>
+      validateBatchReferences([connectBlock, { op: "connect_block", block_id: 9, channel_ids: ["$1"] }]),
+    ).toThrow("channel_ids needs a channel id");
+    expect(() =>
+      validateBatchReferences([createChannel, { op: "connect_block", block_id: "$1", channel_ids: [3] }]),
+    ).toThrow("block_id needs a block id from create_block");
+    expect(() =>
+      validateBatchReferences([connectBlock, { op: "connect_block", block_id: "$1", channel_ids: [3] }]),
+    ).toThrow("block_id needs a block id");
+    expect(() =>
+      validateBatchReferences([createBlock, { op: "disconnect_connection", connection_id: "$1" }]),
+    ).toThrow("connection_id needs a connection id from connect_block");
+    expect(() =>
+      validateBatchReferences([createChannel, { op: "move_connection", connection_id: "$1", movement: "move_up" }]),
+    ).toThrow("connection_id needs a connection id");
+    expect(() =>
+      validateBatchReferences([
+        createChannel,
+        createBlock,
+        { op: "connect_block", block_id: "$2", channel_ids: ["$1"] },
+        { op: "disconnect_connection", connection_id: "$3" },
+      ]),
+    ).not.toThrow();
+  });
+});
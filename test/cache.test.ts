@@ -0,0 +1,105 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  ResponseCache,
+  cacheEndpointForPath,
+  cacheTagsForPath,
+  writeInvalidationTags,
+} from "../src/arena/cache.js";
+import { arenaWriteRequests } from "../src/arena/client.js";
+
+const ttlMs = { channel: 1_000, block: 5_000, user: 5_000, search: 0 };
+
+describe("response cache", () => {
+  it("classifies endpoints and derives tags from paths and channel payloads", () => {
+    expect(cacheEndpointForPath("/v3/channels/arena-influences/contents?page=2")).toBe("channel");
+    expect(cacheEndpointForPath("/v2/search/blocks?q=x")).toBe("search");
+    expect(cacheEndpointForPath("/v3/me")).toBe("user");
+    expect(cacheEndpointForPath("/v3/groups/1")).toBeNull();
+
+    expect(cacheTagsForPath("/v3/channels/arena-influences", { id: 12, slug: "arena-influences" })).toEqual([
+      "channel:arena-influences",
+      "channel:12",
+    ]);
+    expect(cacheTagsForPath("/v3/blocks/5/connections?page=1", null)).toEqual(["block:5"]);
+  });
+
+  it("expires entries per endpoint TTL and skips endpoints with TTL 0", async () => {
+    let now = 0;
+    const cache = new ResponseCache({ ttlMs, maxEntries: 10, filePath: null, now: () => now });
+
+    await cache.set("GET /v3/channels/a", "/v3/channels/a", { id: 1 });
+    await cache.set("GET /v3/search?q=x", "/v3/search", { data: [] });
+    expect(await cache.get("GET /v3/channels/a")).toEqual({ id: 1 });
+    expect(await cache.get("GET /v3/search?q=x")).toBeUndefined();
+
+    now = 1_000;
+    expect(await cache.get("GET /v3/channels/a")).toBeUndefined();
+  });
+
+  it("invalidates channel entries by id through slug aliases", async () => {
+    const cache = new ResponseCache({ ttlMs, maxEntries: 10, filePath: null });
+    await cache.set("GET /v3/channels/inbox", "/v3/channels/inbox", { id: 7, slug: "inbox" });
+    await cache.set("GET /v3/channels/inbox/contents?page=1", "/v3/channels/inbox/contents", { data: [] });
+    await cache.set("GET /v3/blocks/9", "/v3/blocks/9", { id: 9 });
+
+    const tags = writeInvalidationTags(arenaWriteRequests.createBlock({ value: "x", channel_ids: [7] }), null);
+    expect(await cache.invalidate(tags)).toBe(2);
+    expect(await cache.get("GET /v3/blocks/9")).toEqual({ id: 9 });
+
+    expect(writeInvalidationTags(arenaWriteRequests.moveConnection(3, {}), { channel_id: 7 })).toEqual([
+      "channel:7",
+    ]);
+    expect(await cache.invalidate(writeInvalidationTags(arenaWriteRequests.disconnectConnection(3), null))).toBe(1);
+  });
+
+  it("drops slug-keyed channel entries on writes by id when no cached channel links the two", async () => {
+    const cache = new ResponseCache({ ttlMs, maxEntries: 3, filePath: null });
+    await cache.set("GET /v3/channels/other", "/v3/channels/other", { id: 8, slug: "other" });
+    await cache.set("GET /v3/channels/other/contents?page=1", "/v3/channels/other/contents", { data: [] });
+    await cache.set("GET /v3/channels/inbox/contents?page=1", "/v3/channels/inbox/contents", { data: [] });
+
+    expect(await cache.invalidate(["channel:7"])).toBe(1);
+    expect(await cache.get("GET /v3/channels/inbox/contents?page=1")).toBeUndefined();
+    expect(await cache.get("GET /v3/channels/other/contents?page=1")).toEqual({ data: [] });
+
+    await cache.set("GET /v3/blocks/1", "/v3/blocks/1", { id: 1 });
+    await cache.set("GET /v3/blocks/2", "/v3/blocks/2", { id: 2 });
+    expect(await cache.get("GET /v3/channels/other")).toBeUndefined();
+    expect(await cache.invalidate(["channel:8"])).toBe(1);
+    expect(await cache.get("GET /v3/channels/other/contents?page=1")).toBeUndefined();
+  });
+
+  it("ignores responses fetched before an invalidation", async () => {
+    const cache = new ResponseCache({ ttlMs, maxEntries: 10, filePath: null });
+    const generation = cache.generation;
+    await cache.invalidate(["block:9"]);
+    await cache.set("GET /v3/blocks/9", "/v3/blocks/9", { id: 9, title: "Stale" }, generation);
+    expect(await cache.get("GET /v3/blocks/9")).toBeUndefined();
+
+    await cache.set("GET /v3/blocks/9", "/v3/blocks/9", { id: 9, title: "Fresh" }, cache.generation);
+    expect(await cache.get("GET /v3/blocks/9")).toEqual({ id: 9, title: "Fresh" });
+  });
+
+  it("evicts the least recently used entry and persists to disk", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "arena-cache-"));
+    try {
+      const filePath = join(directory, "cache.json");
+      const cache = new ResponseCache({ ttlMs, maxEntries: 2, filePath });
+      await cache.set("GET /v3/blocks/1", "/v3/blocks/1", { id: 1 });
+      await cache.set("GET /v3/blocks/2", "/v3/blocks/2", { id: 2 });
+      await cache.get("GET /v3/blocks/1");
+      await cache.set("GET /v3/blocks/3", "/v3/blocks/3", { id: 3 });
+      expect(await cache.get("GET /v3/blocks/2")).toBeUndefined();
+      await cache.flush();
+
+      const reloaded = new ResponseCache({ ttlMs, maxEntries: 2, filePath });
+      expect(await reloaded.get("GET /v3/blocks/1")).toEqual({ id: 1 });
+      expect(await reloaded.get("GET /v3/blocks/3")).toEqual({ id: 3 });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, expect, it, vi } from "vitest";
-import { ArenaClient, computeRetryDelayMs } from "../src/arena/client.js";
-import { ArenaApiError } from "../src/errors.js";
+import { ArenaClient, arenaWriteRequests, computeRetryDelayMs } from "../src/arena/client.js";
+import { ResponseCache } from "../src/arena/cache.js";
+import { CircuitBreaker } from "../src/arena/circuit-breaker.js";
+import { RateLimitBucket } from "../src/arena/rate-limit.js";
+import { ArenaApiError, toUserFacingError } from "../src/errors.js";
 import type { ServerConfig } from "../src/config.js";
 
 function makeConfig(overrides: Partial<ServerConfig> = {}): ServerConfig {
@@ -18,6 +21,20 @@ function makeConfig(overrides: Partial<ServerConfig> = {}): ServerConfig {
     arenaImageFetchMaxConcurrent: 3,
     arenaImageFetchUserAgent:
       "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36",
+    arenaWriteDryRun: false,
+    arenaWriteJournalPath: null,
+    arenaCacheEnabled: false,
+    arenaCacheMaxEntries: 500,
+    arenaCacheTtlMs: { channel: 30_000, block: 120_000, user: 300_000, search: 30_000 },
+    arenaCacheFilePath: null,
+    arenaConditionalRequestsEnabled: false,
+    arenaRateLimitEnabled: false,
+    arenaCircuitBreakerThreshold: 0,
+    arenaCircuitBreakerResetMs: 30_000,
+    arenaReadOnly: false,
+    arenaEnabledTools: null,
+    arenaDisabledTools: [],
+    arenaSubscriptionPollIntervalMs: 60_000,
     ...overrides,
   };
 }
@@ -182,6 +199,41 @@ describe("ArenaClient integration-style behavior", () => {
     expect(response.data[0]?.type).toBe("Text");
   });
 
+  it("iterates channel contents by following nextPage", async () => {
+    const pageBody = (page: number, nextPage: number | null) => ({
+      data: [{ id: page * 10, type: "Text", title: `Page ${page}` }],
+      meta: {
+        current_page: page,
+        next_page: nextPage,
+        prev_page: page > 1 ? page - 1 : null,
+        per_page: 1,
+        total_pages: 3,
+        total_count: 3,
+        has_more_pages: nextPage !== null,
+      },
+    });
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(pageBody(1, 2), 200))
+      .mockResolvedValueOnce(jsonResponse(pageBody(2, 3), 200))
+      .mockResolvedValueOnce(jsonResponse(pageBody(3, null), 200));
+
+    const client = new ArenaClient(makeConfig(), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+    });
+
+    const ids: number[] = [];
+    for await (const page of client.iterateChannelContents({ idOrSlug: "test-channel", per: 1 })) {
+      ids.push(...page.data.map((item) => item.id));
+    }
+
+    expect(ids).toEqual([10, 20, 30]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(String(fetchMock.mock.calls[2]?.[0])).toContain("page=3");
+  });
+
   it("returns normalized block from create_block", async () => {
     const fetchMock = vi.fn().mockResolvedValue(
       jsonResponse(
@@ -229,6 +281,448 @@ describe("ArenaClient integration-style behavior", () => {
     expect(String(fetchMock.mock.calls[0]?.[0])).toContain("/v3/blocks");
   });
 
+  it("sends block updates as PUT with a JSON body", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      jsonResponse({ id: 22, type: "Text", title: "Renamed", content: null, source: null }, 200),
+    );
+    const client = new ArenaClient(makeConfig(), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+    });
+
+    const block = await client.updateBlock(22, { title: "Renamed" });
+    expect(block.title).toBe("Renamed");
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toContain("/v3/blocks/22");
+    expect(init.method).toBe("PUT");
+    expect(init.body).toBe(JSON.stringify({ title: "Renamed" }));
+  });
+
+  it("handles delete_block with HTTP 204", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+    const client = new ArenaClient(makeConfig(), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+    });
+
+    await expect(client.deleteBlock(22)).resolves.toBeUndefined();
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toContain("/v3/blocks/22");
+    expect(init.method).toBe("DELETE");
+    expect(init.body).toBeUndefined();
+  });
+
+  it("previews write requests without sending them or leaking the token", () => {
+    const fetchMock = vi.fn();
+    const client = new ArenaClient(makeConfig(), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+    });
+
+    const preview = client.previewRequest(arenaWriteRequests.moveConnection(7, { movement: "move_to_top" }));
+    expect(preview).toEqual({
+      method: "POST",
+      url: "https://api.are.na/v3/connections/7/move",
+      headers: {
+        Authorization: "Bearer <redacted>",
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: { movement: "move_to_top" },
+    });
+    expect(JSON.stringify(preview)).not.toContain("test-token");
+    expect(client.previewRequest(arenaWriteRequests.deleteBlock(5)).headers).not.toHaveProperty("Content-Type");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("serves repeated reads from the cache until a write touches the channel", async () => {
+    const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      if (init?.method === "POST") {
+        return jsonResponse({ id: 40, type: "Text", title: "New", content: null, source: null }, 201);
+      }
+      if (url.includes("/contents")) {
+        return jsonResponse({ data: [], meta: { current_page: 1, total_pages: 1, total_count: 0 } }, 200);
+      }
+      return jsonResponse({ id: 7, slug: "inbox", title: "Inbox" }, 200);
+    });
+    const cache = new ResponseCache({
+      ttlMs: { channel: 60_000, block: 60_000, user: 60_000, search: 60_000 },
+      maxEntries: 50,
+      filePath: null,
+    });
+    const client = new ArenaClient(makeConfig(), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+      cache,
+    });
+
+    await client.getChannel("inbox");
+    await client.getChannelContents({ idOrSlug: "inbox", page: 1 });
+    await client.getChannel("inbox");
+    await client.getChannelContents({ idOrSlug: "inbox", page: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await client.createBlock({ value: "New", channel_ids: [7] });
+    await client.getChannelContents({ idOrSlug: "inbox", page: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+
+    await client.getChannel("inbox", undefined, { bypassCache: true });
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    await client.getChannel("inbox");
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it("does not cache a GET response that a write invalidated while it was in flight", async () => {
+    let release: () => void = () => undefined;
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      if (init?.method === "POST") {
+        return jsonResponse({ id: 40, type: "Text", title: "New", content: null, source: null }, 201);
+      }
+      if (fetchMock.mock.calls.length === 1) {
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      }
+      return jsonResponse({ data: [], meta: { current_page: 1, total_pages: 1, total_count: 0 } }, 200);
+    });
+    const client = new ArenaClient(makeConfig(), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+      cache: new ResponseCache({
+        ttlMs: { channel: 60_000, block: 60_000, user: 60_000, search: 60_000 },
+        maxEntries: 50,
+        filePath: null,
+      }),
+    });
+
+    const stale = client.getChannelContents({ idOrSlug: "inbox", page: 1 });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    await client.createBlock({ value: "New", channel_ids: [7] });
+    release();
+    await stale;
+
+    await client.getChannelContents({ idOrSlug: "inbox", page: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("revalidates GETs with stored validators and treats 304 as a hit", async () => {
+    const requestHeaders: Array<Record<string, string>> = [];
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      requestHeaders.push((init?.headers ?? {}) as Record<string, string>);
+      if (requestHeaders.length === 1) {
+        return jsonResponse({ id: 7, slug: "inbox", title: "Inbox" }, 200, {
+          etag: '"v1"',
+          "last-modified": "Tue, 06 Oct 2026 10:00:00 GMT",
+        });
+      }
+      return new Response(null, { status: 304 });
+    });
+    const client = new ArenaClient(makeConfig({ arenaConditionalRequestsEnabled: true }), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+    });
+
+    const first = await client.getChannel("inbox");
+    const second = await client.getChannel("inbox");
+
+    expect(second).toEqual(first);
+    expect(requestHeaders[0]).not.toHaveProperty("If-None-Match");
+    expect(requestHeaders[1]).toMatchObject({
+      "If-None-Match": '"v1"',
+      "If-Modified-Since": "Tue, 06 Oct 2026 10:00:00 GMT",
+    });
+  });
+
+  it("coalesces concurrent identical GETs into one fetch", async () => {
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const fetchMock = vi.fn(async (url: string) => {
+      await gate;
+      return jsonResponse({ id: url.endsWith("/2") ? 2 : 1, type: "Text", title: "Block" }, 200);
+    });
+    const client = new ArenaClient(makeConfig({ arenaMaxConcurrentRequests: 1 }), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+    });
+
+    const pending = Promise.all([client.getBlock(1), client.getBlock(1), client.getBlock(2), client.getBlock(1)]);
+    await Promise.resolve();
+    expect(client.getRequestMetrics()).toEqual({ issuedRequests: 2, coalescedRequests: 2, inFlightRequests: 2 });
+    release();
+    const blocks = await pending;
+
+    expect(blocks.map((block) => block.id)).toEqual([1, 1, 2, 1]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.getRequestMetrics().inFlightRequests).toBe(0);
+  });
+
+  it("waits for the reported reset once the rate-limit budget is spent", async () => {
+    let now = Date.parse("2026-10-19T12:00:00.000Z");
+    const sleepCalls: number[] = [];
+    const sleepMs = async (ms: number) => {
+      sleepCalls.push(ms);
+      now += ms;
+    };
+    const fetchMock = vi.fn(async () =>
+      jsonResponse({ id: 1, type: "Text", title: "Block" }, 200, {
+        "x-ratelimit-limit": "2",
+        "x-ratelimit-remaining": String(2 - fetchMock.mock.calls.length),
+        "x-ratelimit-reset": "30",
+      }),
+    );
+    const client = new ArenaClient(makeConfig(), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs,
+      random: () => 0,
+      rateLimit: new RateLimitBucket({ now: () => now, sleepMs }),
+    });
+
+    await client.getBlock(1);
+    expect(client.getRateLimitStatus()).toEqual({ limit: 2, remaining: 1, resetAt: "2026-10-19T12:00:30.000Z" });
+    await client.getBlock(2);
+    expect(sleepCalls).toEqual([]);
+
+    await client.getBlock(3);
+    expect(sleepCalls).toEqual([30_000]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("takes a rate-limit token before queueing for a concurrency slot", async () => {
+    let release: () => void = () => undefined;
+    const fetchMock = vi.fn(async () => {
+      if (fetchMock.mock.calls.length === 2) {
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      }
+      return jsonResponse({ id: 1, type: "Text", title: "Block" }, 200, {
+        "x-ratelimit-limit": "10",
+        "x-ratelimit-remaining": "5",
+      });
+    });
+    let sleeping = 0;
+    const client = new ArenaClient(makeConfig({ arenaMaxConcurrentRequests: 1 }), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+      cache: null,
+      rateLimit: new RateLimitBucket({
+        sleepMs: () => {
+          sleeping += 1;
+          return new Promise(() => undefined);
+        },
+      }),
+    });
+
+    await client.getBlock(1);
+    const held = client.getBlock(2);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    const queued = client.getBlock(3);
+    await Promise.resolve();
+    expect(client.getRateLimitStatus()?.remaining).toBe(3);
+    expect(sleeping).toBe(0);
+
+    release();
+    await expect(Promise.all([held, queued])).resolves.toHaveLength(2);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("opens the circuit after repeated 5xx responses and half-opens after the reset timer", async () => {
+    let now = 0;
+    let healthy = false;
+    const fetchMock = vi.fn(async () =>
+      healthy ? jsonResponse({ id: 1, type: "Text", title: "Block" }, 200) : jsonResponse({ error: "Down" }, 503),
+    );
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 10_000, now: () => now });
+    const client = new ArenaClient(makeConfig({ arenaMaxRetries: 5 }), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+      circuitBreaker: breaker,
+    });
+
+    await expect(client.getBlock(1)).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(client.getCircuitBreakerStatus()).toMatchObject({ state: "open", consecutiveFailures: 3 });
+
+    const failFast = await client.getBlock(1).catch((error: unknown) => error);
+    expect(toUserFacingError(failFast)).toBe(
+      "Are.na API is unavailable after 3 consecutive failures. Requests are paused; retry in 10 seconds.",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    now = 9_999;
+    expect(client.getCircuitBreakerStatus()?.state).toBe("open");
+    now = 10_000;
+    expect(client.getCircuitBreakerStatus()).toMatchObject({ state: "half_open", consecutiveFailures: 3 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    healthy = true;
+    await expect(client.getBlock(1)).resolves.toMatchObject({ id: 1 });
+    expect(client.getCircuitBreakerStatus()?.state).toBe("closed");
+  });
+
+  it("releases the half-open probe slot when the probe request is cancelled", async () => {
+    let now = 0;
+    const fetchMock = vi.fn(
+      async (_url: string, init: RequestInit) =>
+        new Promise<Response>((resolve, reject) => {
+          if (fetchMock.mock.calls.length === 1) {
+            resolve(jsonResponse({ error: "Down" }, 503));
+            return;
+          }
+          if (fetchMock.mock.calls.length === 2) {
+            init.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+            return;
+          }
+          resolve(jsonResponse({ id: 1, type: "Text", title: "Block" }, 200));
+        }),
+    );
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 10_000, now: () => now });
+    const client = new ArenaClient(makeConfig({ arenaMaxRetries: 0 }), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+      circuitBreaker: breaker,
+      cache: null,
+    });
+
+    await expect(client.getBlock(1)).rejects.toMatchObject({ status: 503 });
+    expect(client.getCircuitBreakerStatus()?.state).toBe("open");
+
+    now = 10_000;
+    const controller = new AbortController();
+    const probe = client.getBlock(1, controller.signal);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    controller.abort();
+    await expect(probe).rejects.toMatchObject({ name: "AbortError" });
+    expect(client.getCircuitBreakerStatus()?.state).toBe("half_open");
+
+    await expect(client.getBlock(1)).resolves.toMatchObject({ id: 1 });
+    expect(client.getCircuitBreakerStatus()?.state).toBe("closed");
+  });
+
+  it("releases the half-open probe slot when the probe is cancelled while waiting for the rate limit", async () => {
+    let now = 0;
+    let healthy = false;
+    const fetchMock = vi.fn(async () =>
+      healthy
+        ? jsonResponse({ id: 1, type: "Text", title: "Block" }, 200)
+        : jsonResponse({ error: "Down" }, 503, {
+            "x-ratelimit-limit": "10",
+            "x-ratelimit-remaining": "0",
+            "x-ratelimit-reset": "60",
+          }),
+    );
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 10_000, now: () => now });
+    const client = new ArenaClient(makeConfig({ arenaMaxRetries: 0 }), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+      circuitBreaker: breaker,
+      rateLimit: new RateLimitBucket({ now: () => now, sleepMs: () => new Promise(() => undefined) }),
+    });
+
+    await expect(client.getBlock(1)).rejects.toMatchObject({ status: 503 });
+
+    now = 10_000;
+    const controller = new AbortController();
+    const probe = client.getBlock(1, controller.signal);
+    await vi.waitFor(() => expect(client.getCircuitBreakerStatus()?.state).toBe("half_open"));
+    controller.abort();
+    await expect(probe).rejects.toMatchObject({ name: "AbortError" });
+
+    now = 60_000;
+    healthy = true;
+    await expect(client.getBlock(1)).resolves.toMatchObject({ id: 1 });
+    expect(client.getCircuitBreakerStatus()?.state).toBe("closed");
+  });
+
+  it("stops retrying as soon as the caller aborts", async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn(async () => jsonResponse({ error: "Down" }, 503));
+    const client = new ArenaClient(makeConfig(), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: () => new Promise(() => undefined),
+      random: () => 0,
+    });
+
+    const pending = client.getBlock(1, controller.signal);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps a coalesced request alive while another caller still waits for it", async () => {
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const fetchSignals: AbortSignal[] = [];
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      if (init?.signal) {
+        fetchSignals.push(init.signal);
+      }
+      await gate;
+      return jsonResponse({ id: 1, type: "Text", title: "Block" }, 200);
+    });
+    const client = new ArenaClient(makeConfig(), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+    });
+    const cancelled = new AbortController();
+
+    const first = client.getBlock(1, cancelled.signal);
+    const second = client.getBlock(1);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    cancelled.abort();
+    await expect(first).rejects.toMatchObject({ name: "AbortError" });
+    expect(fetchSignals[0]?.aborted).toBe(false);
+
+    release();
+    await expect(second).resolves.toMatchObject({ id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns every connection created by connect_block", async () => {
+    const connection = (id: number, channelId: number) => ({
+      id,
+      connectable_id: 5,
+      connectable_type: "Block",
+      channel_id: channelId,
+      position: 0,
+    });
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(Response.json({ data: [connection(31, 1), connection(32, 2)] }, { status: 201 }))
+      .mockResolvedValueOnce(Response.json(connection(33, 3), { status: 201 }));
+    const client = new ArenaClient(makeConfig(), {
+      fetchImpl: fetchMock as unknown as typeof fetch,
+      sleepMs: async () => undefined,
+      random: () => 0,
+    });
+
+    const connected = await client.connectBlock({ connectable_id: 5, connectable_type: "Block", channel_ids: [1, 2] });
+    expect(connected.map((result) => [result.id, result.channelId])).toEqual([
+      [31, 1],
+      [32, 2],
+    ]);
+    const single = await client.connectBlock({ connectable_id: 5, connectable_type: "Block", channel_ids: [3] });
+    expect(single.map((result) => result.id)).toEqual([33]);
+  });
+
   it("handles disconnect_connection with HTTP 204", async () => {
     const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
     const client = new ArenaClient(makeConfig(), {
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { compareChannelSnapshots, normalizeSourceUrl } from "../src/arena/compare.js";
+import type { NormalizedBlock, NormalizedChannel } from "../src/arena/types.js";
+
+function makeChannel(id: number): NormalizedChannel {
+  return {
+    type: "Channel",
+    id,
+    slug: `channel-${id}`,
+    title: `Channel ${id}`,
+    description: null,
+    state: "available",
+    visibility: "public",
+    createdAt: null,
+    updatedAt: null,
+    owner: null,
+    counts: null,
+    connection: null,
+  };
+}
+
+function makeLinkBlock(id: number, sourceUrl: string | null = null): NormalizedBlock {
+  return {
+    type: "Link",
+    id,
+    title: `Block ${id}`,
+    description: null,
+    state: "available",
+    visibility: "public",
+    commentCount: 0,
+    createdAt: null,
+    updatedAt: null,
+    user: null,
+    sourceUrl,
+    sourceTitle: null,
+    content: null,
+    image: null,
+    attachment: null,
+    embed: null,
+    connection: null,
+  };
+}
+
+describe("channel comparison", () => {
+  it("reports shared, common, and unique blocks with Jaccard similarity", () => {
+    const comparison = compareChannelSnapshots([
+      {
+        channel: makeChannel(1),
+        contents: [makeLinkBlock(10), makeLinkBlock(11), makeLinkBlock(12), makeChannel(99)],
+        truncated: false,
+      },
+      {
+        channel: makeChannel(2),
+        contents: [makeLinkBlock(10), makeLinkBlock(11), makeLinkBlock(20)],
+        truncated: false,
+      },
+      {
+        channel: makeChannel(3),
+        contents: [makeLinkBlock(10), makeLinkBlock(30)],
+        truncated: true,
+      },
+    ]);
+
+    expect(comparison.commonBlockIds).toEqual([10]);
+    expect(comparison.sharedBlocks.map((block) => [block.id, block.channelIds])).toEqual([
+      [10, [1, 2, 3]],
+      [11, [1, 2]],
+    ]);
+    expect(comparison.channels.map((channel) => channel.uniqueBlockIds)).toEqual([[12], [20], [30]]);
+    expect(comparison.channels[2]?.truncated).toBe(true);
+    expect(comparison.pairs[0]).toEqual({
+      channelIds: [1, 2],
+      sharedBlockCount: 2,
+      unionBlockCount: 4,
+      jaccard: 0.5,
+      sharedSourceUrlCount: 0,
+    });
+    expect(comparison.jaccard).toBe(0.2);
+  });
+
+  it("matches source URLs across different block ids", () => {
+    const comparison = compareChannelSnapshots([
+      {
+        channel: makeChannel(1),
+        contents: [makeLinkBlock(10, "https://www.Example.com/article/?utm_source=x#top")],
+        truncated: false,
+      },
+      {
+        channel: makeChannel(2),
+        contents: [makeLinkBlock(20, "https://example.com/article")],
+        truncated: false,
+      },
+    ]);
+
+    expect(comparison.sharedBlocks).toEqual([]);
+    expect(comparison.sharedSourceUrls).toEqual([
+      { url: "https://example.com/article", blockIds: [10, 20], channelIds: [1, 2] },
+    ]);
+    expect(comparison.pairs[0]?.sharedSourceUrlCount).toBe(1);
+  });
+
+  it("normalizes source URLs", () => {
+    expect(normalizeSourceUrl("https://www.example.com/a/?utm_medium=y&id=2#frag")).toBe(
+      "https://example.com/a?id=2",
+    );
+    expect(normalizeSourceUrl("  ")).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { type CompletionClient, createArenaCompleter, rankCompletions } from "../src/mcp/completions.js";
+import type { NormalizedChannel, NormalizedSearchItem, SearchParams } from "../src/arena/types.js";
+
+const meta = { currentPage: 1, nextPage: null, prevPage: null, perPage: 100, totalPages: 1, totalCount: 2, hasMorePages: false };
+
+function makeChannel(id: number, slug: string): NormalizedChannel {
+  return {
+    type: "Channel",
+    id,
+    slug,
+    title: slug,
+    description: null,
+    state: "available",
+    visibility: "public",
+    createdAt: null,
+    updatedAt: null,
+    owner: null,
+    counts: null,
+    connection: null,
+  };
+}
+
+function makeSearchItem(
+  id: number,
+  entityType: NormalizedSearchItem["entityType"],
+  slug: string | null,
+  title: string,
+): NormalizedSearchItem {
+  return { id, entityType, title, subtitle: null, slug, blockType: null, url: null, raw: {} };
+}
+
+function makeFakeArenaClient() {
+  const calls = { me: 0, userContents: 0, search: [] as SearchParams[] };
+  const client = {
+    getMe: async () => {
+      calls.me += 1;
+      return {
+        id: 1,
+        slug: "me",
+        name: "Me",
+        avatar: null,
+        initials: null,
+        bio: null,
+        createdAt: null,
+        updatedAt: null,
+        counts: null,
+      };
+    },
+    getUserContents: async () => {
+      calls.userContents += 1;
+      return { data: [makeChannel(1, "reading-list"), makeChannel(2, "design-references")], meta };
+    },
+    search: async (params: SearchParams) => {
+      calls.search.push(params);
+      if (params.query === "broken") {
+        throw new Error("search failed");
+      }
+      return {
+        sourceApi: "v3" as const,
+        items: [
+          makeSearchItem(7, params.type === "User" ? "User" : "Channel", `${params.query}-found`, "Found"),
+          makeSearchItem(8, "Block", null, "Ignored"),
+        ],
+        meta,
+      };
+    },
+  } satisfies CompletionClient;
+  return { client, calls };
+}
+
+describe("argument completion", () => {
+  it("ranks prefix matches before substring matches and drops non-matches", () => {
+    expect(rankCompletions(["design-references", "web-design", "reading-list", "design-references"], "des")).toEqual([
+      "design-references",
+      "web-design",
+    ]);
+    expect(rankCompletions(["all", "my", "following"], "")).toEqual(["all", "my", "following"]);
+  });
+
+  it("merges the user's own channels with channel search results", async () => {
+    const { client, calls } = makeFakeArenaClient();
+    const completer = createArenaCompleter(client);
+
+    expect(await completer.channelSlugs("")).toEqual(["reading-list", "design-references"]);
+    expect(await completer.channelSlugs("Design")).toEqual(["design-references", "design-found"]);
+    expect(calls.search).toEqual([{ query: "design", type: "Channel", per: 20 }]);
+    expect(await completer.userSlugs("me")).toEqual(["me", "me-found"]);
+    expect(calls.search.at(-1)).toMatchObject({ query: "me", type: "User" });
+  });
+
+  it("serves repeated keystrokes from the cache until the TTL expires", async () => {
+    let now = 0;
+    const { client, calls } = makeFakeArenaClient();
+    const completer = createArenaCompleter(client, { ttlMs: 1_000, now: () => now });
+
+    await completer.channelSlugs("read");
+    await completer.channelSlugs("read");
+    await completer.userSlugs("");
+    expect(calls.me).toBe(1);
+    expect(calls.userContents).toBe(1);
+    expect(calls.search).toHaveLength(1);
+
+    now = 1_000;
+    await completer.channelSlugs("read");
+    expect(calls.userContents).toBe(2);
+    expect(calls.search).toHaveLength(2);
+  });
+
+  it("falls back to cached own channels when search fails and retries the failed query", async () => {
+    const { client, calls } = makeFakeArenaClient();
+    const completer = createArenaCompleter(client);
+
+    expect(await completer.channelSlugs("broken")).toEqual([]);
+    expect(await completer.channelSlugs("re")).toEqual(["reading-list", "re-found", "design-references"]);
+    await completer.channelSlugs("broken");
+    expect(calls.search.filter((params) => params.query === "broken")).toHaveLength(2);
+  });
+});
@@ -24,6 +24,19 @@ describe("config", () => {
     expect(config.arenaImageFetchMaxBytes).toBe(2_000_000);
     expect(config.arenaImageFetchMaxConcurrent).toBe(3);
     expect(config.arenaImageFetchUserAgent.length).toBeGreaterThan(0);
+    expect(config.arenaWriteDryRun).toBe(false);
+    expect(config.arenaWriteJournalPath).toMatch(/write-journal\.jsonl$/);
+    expect(config.arenaCacheEnabled).toBe(true);
+    expect(config.arenaCacheTtlMs).toEqual({ channel: 30_000, block: 120_000, user: 300_000, search: 30_000 });
+    expect(config.arenaCacheFilePath).toBeNull();
+    expect(config.arenaConditionalRequestsEnabled).toBe(true);
+    expect(config.arenaRateLimitEnabled).toBe(true);
+    expect(config.arenaCircuitBreakerThreshold).toBe(5);
+    expect(config.arenaCircuitBreakerResetMs).toBe(30_000);
+    expect(config.arenaReadOnly).toBe(false);
+    expect(config.arenaEnabledTools).toBeNull();
+    expect(config.arenaDisabledTools).toEqual([]);
+    expect(config.arenaSubscriptionPollIntervalMs).toBe(60_000);
   });
 
   it("parses booleans", () => {
@@ -34,12 +47,33 @@ describe("config", () => {
       ARENA_IMAGE_FETCH_MAX_BYTES: "5000000",
       ARENA_IMAGE_FETCH_MAX_CONCURRENT: "9",
       ARENA_IMAGE_FETCH_USER_AGENT: "CustomAgent/1.0",
+      ARENA_WRITE_DRY_RUN: "yes",
+      ARENA_WRITE_JOURNAL_ENABLED: "false",
+      ARENA_WRITE_JOURNAL_PATH: "/tmp/ignored.jsonl",
+      ARENA_CACHE_ENABLED: "false",
+      ARENA_CACHE_TTL_SEARCH_MS: "0",
+      ARENA_CONDITIONAL_REQUESTS_ENABLED: "no",
+      ARENA_RATE_LIMIT_ENABLED: "0",
+      ARENA_READ_ONLY: "true",
+      ARENA_ENABLED_TOOLS: "search_arena, get_user,search_arena",
+      ARENA_DISABLED_TOOLS: "get_user",
+      ARENA_SUBSCRIPTION_POLL_INTERVAL_MS: "1000",
     });
     expect(config.arenaEnableV2SearchFallback).toBe(false);
     expect(config.arenaImageFetchTimeoutMs).toBe(25_000);
     expect(config.arenaImageFetchMaxBytes).toBe(5_000_000);
     expect(config.arenaImageFetchMaxConcurrent).toBe(9);
     expect(config.arenaImageFetchUserAgent).toBe("CustomAgent/1.0");
+    expect(config.arenaWriteDryRun).toBe(true);
+    expect(config.arenaWriteJournalPath).toBeNull();
+    expect(config.arenaCacheEnabled).toBe(false);
+    expect(config.arenaCacheTtlMs.search).toBe(0);
+    expect(config.arenaConditionalRequestsEnabled).toBe(false);
+    expect(config.arenaRateLimitEnabled).toBe(false);
+    expect(config.arenaReadOnly).toBe(true);
+    expect(config.arenaEnabledTools).toEqual(["search_arena", "get_user"]);
+    expect(config.arenaDisabledTools).toEqual(["get_user"]);
+    expect(config.arenaSubscriptionPollIntervalMs).toBe(5_000);
   });
 
   it("clamps per-page values", () => {
@@ -75,4 +109,14 @@ describe("config", () => {
     expect(config.mcpHttpEnableCors).toBe(true);
     expect(config.mcpHttpAllowedOrigins).toEqual(["https://a.com", "https://b.com"]);
   });
+
+  it("keeps the write journal off in HTTP mode unless it is enabled explicitly", () => {
+    const env = { ARENA_ACCESS_TOKEN: "token", MCP_HTTP_READ_KEYS: "read-1" };
+    expect(loadConfig(env).arenaWriteJournalPath).not.toBeNull();
+    expect(loadHttpConfig(env).arenaWriteJournalPath).toBeNull();
+    expect(
+      loadHttpConfig({ ...env, ARENA_WRITE_JOURNAL_ENABLED: "true", ARENA_WRITE_JOURNAL_PATH: "/data/journal.jsonl" })
+        .arenaWriteJournalPath,
+    ).toBe("/data/journal.jsonl");
+  });
 });
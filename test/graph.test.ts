@@ -0,0 +1,199 @@
+import { describe, expect, it, vi } from "vitest";
+import { crawlGraph, findGraphPath, type GraphClient } from "../src/arena/graph.js";
+import type {
+  NormalizedBlock,
+  NormalizedChannel,
+  NormalizedConnectable,
+  PaginatedResult,
+} from "../src/arena/types.js";
+
+function makeChannel(id: number, ownerId = 100): NormalizedChannel {
+  return {
+    type: "Channel",
+    id,
+    slug: `channel-${id}`,
+    title: `Channel ${id}`,
+    description: null,
+    state: "available",
+    visibility: "public",
+    createdAt: null,
+    updatedAt: null,
+    owner: { id: ownerId, slug: `user-${ownerId}`, name: `User ${ownerId}`, avatar: null, initials: null },
+    counts: null,
+    connection: { id: id * 1000, position: 1, pinned: false, connectedAt: null, connectedBy: null },
+  };
+}
+
+function makeBlock(id: number): NormalizedBlock {
+  return {
+    type: "Text",
+    id,
+    title: `Block ${id}`,
+    description: null,
+    state: "available",
+    visibility: "public",
+    commentCount: 0,
+    createdAt: null,
+    updatedAt: null,
+    user: null,
+    sourceUrl: null,
+    sourceTitle: null,
+    content: null,
+    image: null,
+    attachment: null,
+    embed: null,
+    connection: { id: id * 10, position: 2, pinned: false, connectedAt: null, connectedBy: null },
+  };
+}
+
+function page<T>(data: T[]): PaginatedResult<T> {
+  return {
+    data,
+    meta: {
+      currentPage: 1,
+      nextPage: null,
+      prevPage: null,
+      perPage: 25,
+      totalPages: 1,
+      totalCount: data.length,
+      hasMorePages: false,
+    },
+  };
+}
+
+function makeGraphClient(
+  contents: Record<number, NormalizedConnectable[]>,
+  connections: Record<number, NormalizedChannel[]>,
+) {
+  return {
+    getChannelContents: vi.fn(async ({ idOrSlug }: { idOrSlug: string }) =>
+      page(contents[Number(idOrSlug)] ?? []),
+    ),
+    getBlockConnections: vi.fn(async ({ id }: { id: number }) => page(connections[id] ?? [])),
+  } satisfies GraphClient;
+}
+
+describe("graph crawl", () => {
+  it("alternates contents and connections breadth-first", async () => {
+    const client = makeGraphClient(
+      { 1: [makeBlock(10), makeBlock(11)] },
+      { 10: [makeChannel(1), makeChannel(2)], 11: [makeChannel(1)] },
+    );
+
+    const graph = await crawlGraph(client, {
+      root: makeChannel(1),
+      maxDepth: 2,
+      maxNodes: 50,
+      perNode: 25,
+      includeUsers: true,
+    });
+
+    expect(graph.root).toBe("channel:1");
+    expect(graph.nodes.map((node) => node.key)).toEqual([
+      "channel:1",
+      "user:100",
+      "block:10",
+      "block:11",
+      "channel:2",
+    ]);
+    expect(graph.edges).toContainEqual({
+      source: "channel:1",
+      target: "block:10",
+      kind: "contains",
+      connection: expect.objectContaining({ id: 100, position: 2 }),
+    });
+    expect(graph.edges).toContainEqual(
+      expect.objectContaining({ source: "channel:2", target: "block:10", kind: "contains" }),
+    );
+    expect(graph.edges).toContainEqual(
+      expect.objectContaining({ source: "user:100", target: "channel:1", kind: "owns" }),
+    );
+    expect(graph.depthReached).toBe(2);
+    expect(graph.truncated).toBe(false);
+    expect(client.getChannelContents).toHaveBeenCalledTimes(1);
+    expect(client.getBlockConnections).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops at the node cap and records failed expansions", async () => {
+    const client = makeGraphClient({ 1: [makeBlock(10), makeBlock(11), makeBlock(12)] }, {});
+    client.getBlockConnections.mockRejectedValueOnce(new Error("boom"));
+
+    const capped = await crawlGraph(client, {
+      root: makeChannel(1),
+      maxDepth: 3,
+      maxNodes: 3,
+      perNode: 25,
+      includeUsers: false,
+    });
+    expect(capped.nodes).toHaveLength(3);
+    expect(capped.truncated).toBe(true);
+    expect(capped.depthReached).toBe(1);
+
+    const withFailure = await crawlGraph(client, {
+      root: makeChannel(1),
+      maxDepth: 2,
+      maxNodes: 50,
+      perNode: 25,
+      includeUsers: false,
+    });
+    expect(withFailure.failures).toEqual([{ node: "block:10", message: "boom" }]);
+    expect(withFailure.expandedCount).toBe(3);
+  });
+});
+
+describe("graph path finding", () => {
+  const contents = {
+    1: [makeBlock(10), makeBlock(11)],
+    2: [makeBlock(10), makeBlock(20)],
+    3: [makeBlock(20)],
+  };
+  const connections = {
+    10: [makeChannel(1), makeChannel(2)],
+    11: [makeChannel(1)],
+    20: [makeChannel(2), makeChannel(3)],
+  };
+
+  it("links two channels through shared blocks from both ends", async () => {
+    const client = makeGraphClient(contents, connections);
+
+    const result = await findGraphPath(client, {
+      source: makeChannel(1),
+      target: makeChannel(3),
+      maxDepth: 6,
+      maxExpansions: 20,
+      perNode: 25,
+    });
+
+    expect(result.found).toBe(true);
+    expect(result.nodes.map((node) => node.key)).toEqual([
+      "channel:1",
+      "block:10",
+      "channel:2",
+      "block:20",
+      "channel:3",
+    ]);
+    expect(result.edges.map((edge) => `${edge.source}->${edge.target}`)).toEqual([
+      "channel:1->block:10",
+      "channel:2->block:10",
+      "channel:2->block:20",
+      "channel:3->block:20",
+    ]);
+    expect(client.getChannelContents).toHaveBeenCalledWith(expect.objectContaining({ idOrSlug: "3" }), undefined);
+  });
+
+  it("reports not found when max_depth is too shallow", async () => {
+    const client = makeGraphClient(contents, connections);
+
+    const result = await findGraphPath(client, {
+      source: makeChannel(1),
+      target: makeChannel(3),
+      maxDepth: 2,
+      maxExpansions: 20,
+      perNode: 25,
+    });
+
+    expect(result.found).toBe(false);
+    expect(result.nodes).toEqual([]);
+    expect(result.budgetExhausted).toBe(false);
+  });
+});
@@ -187,4 +187,22 @@ describe("image helpers", () => {
     expect(result.summary.failed_targets).toBe(1);
     expect(result.summary.details[0]?.reason).toBe("empty_body");
   });
+
+  it("stops fetching remaining images once the caller aborts", async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      controller.abort();
+      init?.signal?.throwIfAborted();
+      return new Response(new Uint8Array([1]), { status: 200, headers: { "content-type": "image/png" } });
+    });
+
+    await expect(
+      buildImageContentWithSummary(["https://img.test/a.png", "https://img.test/b.png"], {
+        fetchImpl: fetchMock as unknown as typeof fetch,
+        maxConcurrent: 1,
+        signal: controller.signal,
+      }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
 });
@@ -0,0 +1,168 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  EMPTY_JOURNAL_IDS,
+  type UndoClient,
+  WriteJournal,
+  lookupPreviousPosition,
+  undoLastWrites,
+} from "../src/arena/journal.js";
+import { ArenaApiError } from "../src/errors.js";
+import type { ArenaWriteRequest, NormalizedConnectionResult } from "../src/arena/types.js";
+
+function makeConnection(id: number, position: number | null = null): NormalizedConnectionResult {
+  return { id, connectableId: null, connectableType: null, channelId: null, position, createdAt: null, raw: {} };
+}
+
+function makeUndoClient() {
+  return {
+    deleteChannel: vi.fn(async () => undefined),
+    deleteBlock: vi.fn(async () => undefined),
+    disconnectConnection: vi.fn(async () => undefined),
+    moveConnection: vi.fn(async (connectionId: number) => makeConnection(connectionId)),
+    previewRequest: vi.fn((request: ArenaWriteRequest) => ({
+      method: request.method,
+      url: `https://api.are.na${request.path}`,
+      headers: {},
+      body: request.body,
+    })),
+  } satisfies UndoClient;
+}
+
+describe("write journal", () => {
+  let directory: string;
+  let journal: WriteJournal;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "arena-journal-"));
+    journal = new WriteJournal(join(directory, "nested", "journal.jsonl"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const undoNewest = async (client: ReturnType<typeof makeUndoClient>, count: number, dryRun: boolean) =>
+    undoLastWrites(client, journal, { entries: await journal.listUndoable(count), dryRun });
+
+  it("appends JSONL entries with planned undo actions", async () => {
+    await journal.recordWrite({
+      operation: "create_block",
+      input: { value: "Note", channel_ids: [1] },
+      ids: { ...EMPTY_JOURNAL_IDS, blockId: 10 },
+    });
+    await journal.recordWrite({
+      operation: "move_connection",
+      input: { connection_id: 5, movement: "move_up" },
+      ids: { ...EMPTY_JOURNAL_IDS, connectionId: 5 },
+    });
+    await journal.recordWrite({
+      operation: "move_connection",
+      input: { connection_id: 5, movement: "move_to_top" },
+      ids: { ...EMPTY_JOURNAL_IDS, connectionId: 5 },
+    });
+
+    const lines = (await readFile(journal.filePath, "utf8")).trim().split("\n");
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0] ?? "{}")).toMatchObject({
+      kind: "write",
+      operation: "create_block",
+      undo: { kind: "delete_block", blockId: 10 },
+    });
+
+    const undoable = await journal.listUndoable(10);
+    expect(undoable.map((entry) => entry.undo)).toEqual([
+      null,
+      { kind: "move_connection", connectionId: 5, movement: "move_down" },
+      { kind: "delete_block", blockId: 10 },
+    ]);
+  });
+
+  it("undoes the newest entries first and never undoes them twice", async () => {
+    await journal.recordWrite({
+      operation: "create_channel",
+      input: { title: "Inbox" },
+      ids: { ...EMPTY_JOURNAL_IDS, channelId: 1 },
+    });
+    await journal.recordWrite({
+      operation: "connect_block",
+      input: { block_id: 2, channel_ids: [1] },
+      ids: { ...EMPTY_JOURNAL_IDS, blockId: 2, connectionId: 3 },
+    });
+    await journal.recordWrite({
+      operation: "delete_block",
+      input: { block_id: 9 },
+      ids: { ...EMPTY_JOURNAL_IDS, blockId: 9 },
+    });
+    const client = makeUndoClient();
+
+    const preview = await undoNewest(client, 2, true);
+    expect(preview.map((result) => result.status)).toEqual(["not_reversible", "dry_run"]);
+    expect(preview[1]?.request).toMatchObject({ method: "DELETE", url: "https://api.are.na/v3/connections/3" });
+    expect(client.disconnectConnection).not.toHaveBeenCalled();
+
+    const first = await undoNewest(client, 2, false);
+    expect(first.map((result) => [result.entry.operation, result.status])).toEqual([
+      ["delete_block", "not_reversible"],
+      ["connect_block", "undone"],
+    ]);
+    expect(client.disconnectConnection).toHaveBeenCalledWith(3);
+
+    const second = await undoNewest(client, 5, false);
+    expect(second.map((result) => [result.entry.operation, result.status])).toEqual([
+      ["create_channel", "undone"],
+    ]);
+    expect(client.deleteChannel).toHaveBeenCalledWith("1");
+    expect(await journal.listUndoable(5)).toEqual([]);
+  });
+
+  it("moves absolutely repositioned connections back to their recorded position", async () => {
+    const getConnection = vi.fn(async (connectionId: number) => makeConnection(connectionId, 4));
+    expect(await lookupPreviousPosition({ getConnection }, 5, "move_up")).toBeNull();
+    expect(getConnection).not.toHaveBeenCalled();
+    const previousPosition = await lookupPreviousPosition({ getConnection }, 5, "move_to_top");
+    expect(previousPosition).toBe(4);
+    getConnection.mockRejectedValueOnce(new Error("lookup failed"));
+    expect(await lookupPreviousPosition({ getConnection }, 5, "insert_at")).toBeNull();
+
+    await journal.recordWrite({
+      operation: "move_connection",
+      input: { connection_id: 5, movement: "move_to_top" },
+      ids: { ...EMPTY_JOURNAL_IDS, connectionId: 5 },
+      previousPosition,
+    });
+    const client = makeUndoClient();
+
+    const [preview] = await undoNewest(client, 1, true);
+    expect(preview?.entry.undo).toEqual({ kind: "move_connection", connectionId: 5, movement: "insert_at", position: 4 });
+    expect(preview?.request).toMatchObject({ body: { movement: "insert_at", position: 4 } });
+
+    const [result] = await undoNewest(client, 1, false);
+    expect(result?.status).toBe("undone");
+    expect(client.moveConnection).toHaveBeenCalledWith(5, { movement: "insert_at", position: 4 });
+  });
+
+  it("records failed undos so later calls move on to older writes", async () => {
+    await journal.recordWrite({
+      operation: "create_channel",
+      input: { title: "Inbox" },
+      ids: { ...EMPTY_JOURNAL_IDS, channelId: 1 },
+    });
+    await journal.recordWrite({
+      operation: "create_block",
+      input: { value: "Note", channel_ids: [1] },
+      ids: { ...EMPTY_JOURNAL_IDS, blockId: 10 },
+    });
+    const client = makeUndoClient();
+    client.deleteBlock.mockRejectedValueOnce(
+      new ArenaApiError({ message: "Server error", status: 503, responseBody: null, url: "https://api.are.na" }),
+    );
+
+    const [result] = await undoNewest(client, 1, false);
+    expect(result?.status).toBe("failed");
+    expect(result?.error).toContain("temporarily unavailable");
+    expect((await journal.listUndoable(5)).map((entry) => entry.operation)).toEqual(["create_channel"]);
+  });
+});
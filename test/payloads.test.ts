@@ -1,8 +1,11 @@
 import { describe, expect, it } from "vitest";
 import {
+  assertDeleteConfirmation,
   buildConnectBlockPayload,
   buildCreateBlockPayload,
   buildMoveConnectionPayload,
+  buildUpdateBlockPayload,
+  buildUpdateChannelPayload,
   looksLikeLocalFilePath,
 } from "../src/arena/payloads.js";
 
@@ -37,6 +40,29 @@ describe("payload builders", () => {
     });
   });
 
+  it("builds update block payload from provided fields only", () => {
+    expect(buildUpdateBlockPayload({ block_id: 5, title: "New", content: "Body" })).toEqual({
+      title: "New",
+      content: "Body",
+    });
+    expect(() => buildUpdateBlockPayload({ block_id: 5 })).toThrow("Provide at least one field");
+    expect(() =>
+      buildUpdateBlockPayload({ block_id: 5, original_source_url: "file:///tmp/a.png" }),
+    ).toThrow("Local file paths are not supported");
+  });
+
+  it("builds update channel payload and requires a field", () => {
+    expect(buildUpdateChannelPayload({ id_or_slug: "inbox", visibility: "public" })).toEqual({
+      visibility: "public",
+    });
+    expect(() => buildUpdateChannelPayload({ id_or_slug: "inbox" })).toThrow("Provide at least one field");
+  });
+
+  it("requires delete confirmation to echo the channel slug", () => {
+    expect(() => assertDeleteConfirmation("research-inbox", "research-inbox")).not.toThrow();
+    expect(() => assertDeleteConfirmation("research-inbox", "inbox")).toThrow("Deletion not confirmed");
+  });
+
   it("validates move payload requirements", () => {
     expect(() =>
       buildMoveConnectionPayload({
@@ -1,9 +1,19 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { afterEach, describe, expect, it, vi } from "vitest";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ElicitRequestSchema, ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { WriteJournal } from "../src/arena/journal.js";
+import { PROMPT_NAMES } from "../src/mcp/prompts.js";
+import { RESOURCE_URIS } from "../src/mcp/resources.js";
+import { SubscriptionRegistry } from "../src/mcp/subscriptions.js";
+import { READ_TOOL_NAMES } from "../src/mcp/tools-read.js";
+import { WRITE_TOOL_NAMES } from "../src/mcp/tools-write.js";
 import { createArenaMcpServer } from "../src/server.js";
 import type { ServerConfig } from "../src/config.js";
-import type { NormalizedSearchItem } from "../src/arena/types.js";
+import type { ArenaRateLimitStatus, ArenaWriteRequest, NormalizedSearchItem } from "../src/arena/types.js";
 import { ArenaApiError } from "../src/errors.js";
 
 function makeConfig(): ServerConfig {
@@ -21,6 +31,20 @@ function makeConfig(): ServerConfig {
     arenaImageFetchMaxConcurrent: 3,
     arenaImageFetchUserAgent:
       "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36",
+    arenaWriteDryRun: false,
+    arenaWriteJournalPath: null,
+    arenaCacheEnabled: false,
+    arenaCacheMaxEntries: 500,
+    arenaCacheTtlMs: { channel: 30_000, block: 120_000, user: 300_000, search: 30_000 },
+    arenaCacheFilePath: null,
+    arenaConditionalRequestsEnabled: false,
+    arenaRateLimitEnabled: false,
+    arenaCircuitBreakerThreshold: 0,
+    arenaCircuitBreakerResetMs: 30_000,
+    arenaReadOnly: false,
+    arenaEnabledTools: null,
+    arenaDisabledTools: [],
+    arenaSubscriptionPollIntervalMs: 60_000,
   };
 }
 
@@ -130,9 +154,45 @@ function makeFakeArenaClient(searchItems: NormalizedSearchItem[] = []) {
       embed: null,
       connection: null,
     }),
-    connectBlock: async () => ({ id: 3, connectableId: 2, connectableType: "Block", channelId: 1, createdAt: null, raw: {} }),
+    connectBlock: async () => [
+      {
+        id: 3,
+        connectableId: 2,
+        connectableType: "Block",
+        channelId: 1,
+        position: 0,
+        createdAt: null,
+        raw: {},
+      },
+    ],
+    getConnection: async () => ({
+      id: 3,
+      connectableId: 1,
+      connectableType: "Block",
+      channelId: 1,
+      position: 0,
+      createdAt: null,
+      raw: {},
+    }),
+    deleteChannel: async () => undefined,
+    deleteBlock: async () => undefined,
     disconnectConnection: async () => undefined,
-    moveConnection: async () => ({ id: 3, connectableId: 2, connectableType: "Block", channelId: 1, createdAt: null, raw: {} }),
+    moveConnection: async () => ({
+      id: 3,
+      connectableId: 2,
+      connectableType: "Block",
+      channelId: 1,
+      position: 0,
+      createdAt: null,
+      raw: {},
+    }),
+    previewRequest: (request: ArenaWriteRequest) => ({
+      method: request.method,
+      url: `https://api.are.na${request.path}`,
+      headers: { Authorization: "Bearer <redacted>" },
+      body: request.body,
+    }),
+    getRateLimitStatus: (): ArenaRateLimitStatus | null => null,
   };
 }
 
@@ -179,6 +239,405 @@ describe("MCP server smoke", () => {
     expect(promptNames).toContain("second_brain_synthesis");
   });
 
+  it("lists the authenticated user's channels across pages and their recently updated blocks", async () => {
+    const base = makeFakeArenaClient();
+    const block = await base.getBlock();
+    const channel = await base.getChannel();
+    const userContentsCalls: Array<{ idOrSlug: string; page?: number; type?: string; sort?: string }> = [];
+    const pageMeta = (page: number, totalPages: number) => ({
+      currentPage: page,
+      nextPage: page < totalPages ? page + 1 : null,
+      prevPage: page > 1 ? page - 1 : null,
+      perPage: 100,
+      totalPages,
+      totalCount: totalPages,
+      hasMorePages: page < totalPages,
+    });
+    const fakeArenaClient = {
+      ...base,
+      getUserContents: async (params: { idOrSlug: string; page?: number; type?: string; sort?: string }) => {
+        userContentsCalls.push(params);
+        const page = params.page ?? 1;
+        if (params.type === "Block") {
+          return { data: [{ ...block, id: 42, title: "Recent note" }], meta: pageMeta(1, 1) };
+        }
+        return {
+          data: [{ ...channel, id: page, slug: `channel-${page}`, title: `Channel ${page}` }],
+          meta: pageMeta(page, 2),
+        };
+      },
+    };
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: fakeArenaClient as never });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const resources = await client.listResources();
+    const uris = resources.resources.map((resource) => resource.uri);
+
+    expect(uris).toEqual(
+      expect.arrayContaining(["arena://me", "arena://channel/channel-1", "arena://channel/channel-2", "arena://block/42"]),
+    );
+    expect(resources.resources.find((resource) => resource.uri === "arena://channel/channel-2")).toMatchObject({
+      name: "channel-2",
+      title: "Channel 2",
+      mimeType: "text/markdown",
+    });
+    expect(resources.resources.find((resource) => resource.uri === "arena://block/42")?.title).toBe("Recent note");
+    expect(userContentsCalls).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ idOrSlug: "me", type: "Channel", page: 2 }),
+        expect.objectContaining({ idOrSlug: "me", type: "Block", sort: "updated_at_desc" }),
+      ]),
+    );
+  });
+
+  it("completes channel slugs, user slugs, and prompt enum arguments", async () => {
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: makeFakeArenaClient() as never });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    expect(client.getServerCapabilities()?.completions).toBeDefined();
+
+    const scope = await client.complete({
+      ref: { type: "ref/prompt", name: "second_brain_synthesis" },
+      argument: { name: "scope", value: "f" },
+    });
+    expect(scope.completion.values).toEqual(["following"]);
+
+    const user = await client.complete({
+      ref: { type: "ref/resource", uri: "arena://user/{idOrSlug}" },
+      argument: { name: "idOrSlug", value: "" },
+    });
+    expect(user.completion.values).toEqual(["me"]);
+
+    const channel = await client.complete({
+      ref: { type: "ref/prompt", name: "summarize_channel" },
+      argument: { name: "id_or_slug", value: "zz" },
+    });
+    expect(channel.completion.values).toEqual([]);
+  });
+
+  it("serves paged markdown and normalized JSON variants of channel, block, and user resources", async () => {
+    const base = makeFakeArenaClient();
+    const block = await base.getBlock();
+    const channel = await base.getChannel();
+    const contentPages: number[] = [];
+    const meta = { currentPage: 2, nextPage: 3, prevPage: 1, perPage: 50, totalPages: 3, totalCount: 101, hasMorePages: true };
+    const fakeArenaClient = {
+      ...base,
+      getChannelContents: async (params: { page?: number }) => {
+        contentPages.push(params.page ?? 1);
+        return { data: [block], meta };
+      },
+      getBlockConnections: async () => ({ data: [channel], meta }),
+      getUserContents: async () => ({ data: [channel], meta }),
+    };
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: fakeArenaClient as never });
+    serverClose = () => server.close();
+
+    const connected = new Client({ name: "test-client", version: "1.0.0" });
+    client = connected;
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), connected.connect(clientTransport)]);
+
+    const readJson = async (uri: string) => {
+      const result = await connected.readResource({ uri });
+      expect(result.contents[0]).toMatchObject({ uri, mimeType: "application/json" });
+      return JSON.parse((result.contents[0] as { text: string }).text) as Record<string, unknown>;
+    };
+
+    expect(await readJson("arena://channel/channel.json")).toEqual({ channel, contents: [block], meta });
+    expect(await readJson("arena://channel/channel/page/2.json")).toMatchObject({ channel: { id: channel.id } });
+    expect(await readJson("arena://block/1.json")).toEqual({ block, connections: [channel], meta });
+    expect(await readJson("arena://user/user.json")).toMatchObject({ user: { slug: "user" }, contents: [channel] });
+
+    const paged = await client.readResource({ uri: "arena://channel/channel/page/2" });
+    expect(paged.contents[0]?.mimeType).toBe("text/markdown");
+    expect(contentPages).toEqual([1, 2, 2]);
+
+    await expect(client.readResource({ uri: "arena://channel/channel/page/0" })).rejects.toThrow(/Invalid page number/);
+  });
+
+  it("reads search results as a resource with query parameters mapped to search params", async () => {
+    const searchCalls: unknown[] = [];
+    const base = makeFakeArenaClient([
+      {
+        id: 7,
+        entityType: "Channel",
+        title: "Design Systems",
+        subtitle: null,
+        slug: "design-systems",
+        blockType: null,
+        url: null,
+        raw: { large: true },
+      },
+    ]);
+    const fakeArenaClient = {
+      ...base,
+      search: async (params: unknown) => {
+        searchCalls.push(params);
+        return base.search();
+      },
+    };
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: fakeArenaClient as never });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const uri = "arena://search/design%20systems?type=channel&scope=my&page=2";
+    const result = await client.readResource({ uri });
+
+    expect(searchCalls).toEqual([{ query: "design systems", type: "Channel", scope: "my", page: 2, per: 10 }]);
+    expect(result.contents.map((content) => content.mimeType)).toEqual(["text/markdown", "application/json"]);
+    expect((result.contents[0] as { text: string }).text).toContain("# Search Results");
+    const json = JSON.parse((result.contents[1] as { text: string }).text) as { items: Array<Record<string, unknown>> };
+    expect(json.items).toEqual([
+      {
+        id: 7,
+        entityType: "Channel",
+        title: "Design Systems",
+        subtitle: null,
+        slug: "design-systems",
+        blockType: null,
+        url: null,
+      },
+    ]);
+
+    await expect(client.readResource({ uri: "arena://search/design?type=Video" })).rejects.toThrow(/Invalid type/);
+  });
+
+  it("advertises resource subscriptions and notifies subscribers when a watched channel changes", async () => {
+    const base = makeFakeArenaClient();
+    const channel = await base.getChannel();
+    let updatedAt = "2026-01-01T00:00:00Z";
+    const fakeArenaClient = { ...base, getChannel: async () => ({ ...channel, updatedAt }) };
+    const subscriptions = new SubscriptionRegistry(fakeArenaClient, { intervalMs: 60_000 });
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: fakeArenaClient as never, subscriptions });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri);
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    expect(client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+    await expect(client.subscribeResource({ uri: "arena://me" })).rejects.toThrow(/Subscriptions are supported/);
+
+    await client.subscribeResource({ uri: "arena://channel/team" });
+    updatedAt = "2026-02-01T00:00:00Z";
+    await subscriptions.poll();
+    await vi.waitFor(() => expect(updated).toEqual(["arena://channel/team"]));
+
+    await client.unsubscribeResource({ uri: "arena://channel/team" });
+    expect(subscriptions.size).toBe(0);
+    await client.subscribeResource({ uri: "arena://block/1" });
+    expect(subscriptions.size).toBe(1);
+    await server.close();
+    expect(subscriptions.size).toBe(0);
+  });
+
+  it("registers only read tools in read-only mode and honors tool allow and deny lists", async () => {
+    const log: string[] = [];
+    const server = createArenaMcpServer(
+      {
+        ...makeConfig(),
+        arenaReadOnly: true,
+        arenaEnabledTools: ["search_arena", "get_user", "get_block_details", "delete_block"],
+        arenaDisabledTools: ["get_user"],
+      },
+      { arenaClient: makeFakeArenaClient() as never, log: (line) => log.push(line) },
+    );
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(["search_arena", "get_block_details"]);
+    const disabled = await client.callTool({ name: "get_user", arguments: { id_or_slug: "user" } });
+    expect(disabled.isError).toBe(true);
+    const summary = await client.getPrompt({ name: "summarize_channel", arguments: { id_or_slug: "inbox" } });
+    expect(JSON.stringify(summary.messages)).toContain("from the arena://channel/inbox resource");
+    expect(JSON.stringify(summary.messages)).not.toMatch(/read_channel_all|get_channel_contents/);
+
+    expect(log[0]).toBe("Active tools (2, read-only): search_arena, get_block_details");
+    expect(log).toContain(
+      "Ignoring unavailable tool names in ARENA_ENABLED_TOOLS/ARENA_DISABLED_TOOLS: delete_block",
+    );
+    expect(log.some((line) => line.startsWith("Disabled tools: ") && line.includes("get_user"))).toBe(true);
+    expect(log.some((line) => line.startsWith("Active resources (10): ") && line.includes("arena://me"))).toBe(true);
+    expect(log.some((line) => line.startsWith("Active prompts (3): "))).toBe(true);
+  });
+
+  it("registers exactly the tools, resources, and prompts listed for the startup inventory", async () => {
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: makeFakeArenaClient() as never });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual([...READ_TOOL_NAMES, ...WRITE_TOOL_NAMES]);
+    const { resourceTemplates } = await client.listResourceTemplates();
+    const { resources } = await client.listResources();
+    expect([...resourceTemplates.map((template) => template.uriTemplate), "arena://me"]).toEqual([...RESOURCE_URIS]);
+    expect(resources.map((resource) => resource.uri)).toContain("arena://me");
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual([...PROMPT_NAMES]);
+    const summary = await client.getPrompt({ name: "summarize_channel", arguments: { id_or_slug: "inbox" } });
+    expect(JSON.stringify(summary.messages)).toContain("Read channel inbox using read_channel_all.");
+  });
+
+  it("annotates every tool with read-only, destructive, and idempotent hints", async () => {
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: makeFakeArenaClient() as never });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const { tools } = await client.listTools();
+    const annotations = Object.fromEntries(tools.map((tool) => [tool.name, tool.annotations]));
+    const readOnly = { readOnlyHint: true, openWorldHint: true };
+    const write = (destructiveHint: boolean, idempotentHint: boolean) => ({
+      readOnlyHint: false,
+      destructiveHint,
+      idempotentHint,
+      openWorldHint: true,
+    });
+
+    expect(annotations).toEqual({
+      search_arena: readOnly,
+      get_channel_contents: readOnly,
+      read_channel_all: readOnly,
+      crawl_graph: readOnly,
+      find_path: readOnly,
+      compare_channels: readOnly,
+      get_block_details: readOnly,
+      get_block_connections: readOnly,
+      get_user: readOnly,
+      get_user_contents: readOnly,
+      create_channel: write(false, false),
+      update_channel: write(true, true),
+      delete_channel: write(true, true),
+      create_block: write(false, false),
+      update_block: write(true, true),
+      delete_block: write(true, true),
+      connect_block: write(false, false),
+      disconnect_connection: write(true, true),
+      move_connection: write(false, false),
+      batch_write: write(true, false),
+      undo_last_writes: write(true, false),
+    });
+  });
+
+  it("returns structured content matching every tool's declared outputSchema", async () => {
+    const base = makeFakeArenaClient([
+      {
+        id: 1,
+        entityType: "Channel",
+        title: "Channel",
+        subtitle: null,
+        slug: "channel",
+        blockType: null,
+        url: null,
+        raw: {},
+      },
+    ]);
+    const block = await base.getBlock();
+    const channel = await base.getChannel();
+    const meta = { currentPage: 1, nextPage: null, prevPage: null, perPage: 50, totalPages: 1, totalCount: 1, hasMorePages: false };
+    const fakeArenaClient = {
+      ...base,
+      getChannel: async (idOrSlug: string) =>
+        idOrSlug === "other" ? { ...channel, id: 9, slug: "other", title: "Other" } : channel,
+      getChannelContents: async () => ({ data: [block], meta }),
+      iterateChannelContents: async function* () {
+        yield { data: [block], meta };
+      },
+      getBlockConnections: async () => ({ data: [channel], meta }),
+      getUserContents: async () => ({ data: [block, channel], meta }),
+      updateChannel: async () => channel,
+      updateBlock: async () => block,
+      getRateLimitStatus: (): ArenaRateLimitStatus | null => ({ limit: 100, remaining: 99, resetAt: null }),
+    };
+    const directory = await mkdtemp(join(tmpdir(), "arena-output-schema-"));
+    const server = createArenaMcpServer(makeConfig(), {
+      arenaClient: fakeArenaClient as never,
+      writeJournal: new WriteJournal(join(directory, "journal.jsonl")),
+    });
+    serverClose = async () => {
+      await server.close();
+      await rm(directory, { recursive: true, force: true });
+    };
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const tools = await client.listTools();
+    expect(tools.tools.filter((tool) => !tool.outputSchema).map((tool) => tool.name)).toEqual([]);
+
+    const calls: Array<{ name: string; arguments: Record<string, unknown> }> = [
+      { name: "search_arena", arguments: { query: "channel" } },
+      { name: "get_channel_contents", arguments: { id_or_slug: "channel" } },
+      { name: "read_channel_all", arguments: { id_or_slug: "channel" } },
+      { name: "crawl_graph", arguments: { channel: "channel" } },
+      { name: "find_path", arguments: { from: { channel: "channel" }, to: { block_id: 1 } } },
+      { name: "compare_channels", arguments: { channels: ["channel", "other"] } },
+      { name: "get_block_details", arguments: { id: 1 } },
+      { name: "get_block_connections", arguments: { id: 1 } },
+      { name: "get_user", arguments: { id_or_slug: "user" } },
+      { name: "get_user_contents", arguments: { id_or_slug: "user" } },
+      { name: "create_channel", arguments: { title: "Created" } },
+      { name: "create_channel", arguments: { title: "Created", dry_run: true } },
+      { name: "update_channel", arguments: { id_or_slug: "channel", title: "Renamed" } },
+      { name: "update_channel", arguments: { id_or_slug: "channel", title: "Renamed", dry_run: true } },
+      { name: "delete_channel", arguments: { id_or_slug: "channel", confirm_slug: "channel" } },
+      { name: "create_block", arguments: { value: "hello", channel_ids: [1] } },
+      { name: "create_block", arguments: { value: "hello", channel_ids: [1], dry_run: true } },
+      { name: "update_block", arguments: { block_id: 1, title: "Renamed" } },
+      { name: "delete_block", arguments: { block_id: 1, dry_run: true } },
+      { name: "delete_block", arguments: { block_id: 1, confirm: true } },
+      { name: "connect_block", arguments: { block_id: 1, channel_ids: [1] } },
+      { name: "connect_block", arguments: { block_id: 1, channel_ids: [1], dry_run: true } },
+      { name: "disconnect_connection", arguments: { connection_id: 3, confirm: true } },
+      { name: "disconnect_connection", arguments: { connection_id: 3, dry_run: true } },
+      { name: "move_connection", arguments: { connection_id: 3, movement: "move_up" } },
+      { name: "move_connection", arguments: { connection_id: 3, movement: "move_up", dry_run: true } },
+      {
+        name: "batch_write",
+        arguments: {
+          operations: [
+            { op: "create_channel", title: "Batch" },
+            { op: "create_block", value: "hello", channel_ids: ["$1"] },
+            { op: "connect_block", block_id: "$2", channel_ids: [1] },
+          ],
+        },
+      },
+      { name: "undo_last_writes", arguments: { count: 3, dry_run: true } },
+    ];
+    for (const call of calls) {
+      const result = await client.callTool(call);
+      expect({ name: call.name, isError: result.isError ?? false }).toEqual({ name: call.name, isError: false });
+      expect(result.structuredContent).toMatchObject({ rate_limit: { limit: 100, remaining: 99, reset_at: null } });
+    }
+    expect(new Set(calls.map((call) => call.name))).toEqual(new Set(tools.tools.map((tool) => tool.name)));
+  });
+
   it("returns top-result structured fields for search_arena", async () => {
     const fakeArenaClient = makeFakeArenaClient([
       {
@@ -264,7 +723,10 @@ describe("MCP server smoke", () => {
       name: "search_arena",
       arguments: { query: "digital garden" },
     });
-    expect(searchMock).toHaveBeenCalledWith(expect.objectContaining({ query: "digital garden", per: 10 }));
+    expect(searchMock).toHaveBeenCalledWith(
+      expect.objectContaining({ query: "digital garden", per: 10 }),
+      expect.any(AbortSignal),
+    );
 
     const structured = (result as { structuredContent?: Record<string, unknown> }).structuredContent;
     expect(structured).toBeTruthy();
@@ -407,9 +869,10 @@ describe("MCP server smoke", () => {
       },
     });
     const structured = (result as { structuredContent?: Record<string, unknown> }).structuredContent;
-    expect(getChannelMock).toHaveBeenCalledWith("ego-3xnidixovwo");
+    expect(getChannelMock).toHaveBeenCalledWith("ego-3xnidixovwo", expect.any(AbortSignal));
     expect(getChannelContentsMock).toHaveBeenCalledWith(
       expect.objectContaining({ idOrSlug: "ego-3xnidixovwo" }),
+      expect.any(AbortSignal),
     );
     expect(structured?.channel_resolution).toEqual({
       input: "https://www.are.na/example-owner/ego-3xnidixovwo",
@@ -512,17 +975,21 @@ describe("MCP server smoke", () => {
     });
     const structured = (result as { structuredContent?: Record<string, unknown> }).structuredContent;
 
-    expect(searchMock).toHaveBeenCalledWith({
-      query: "EGO",
-      type: "Channel",
-      scope: "my",
-      per: 10,
-      sort: "score_desc",
-    });
-    expect(getChannelMock).toHaveBeenNthCalledWith(1, "EGO");
-    expect(getChannelMock).toHaveBeenNthCalledWith(2, "ego-3xnidixovwo");
+    expect(searchMock).toHaveBeenCalledWith(
+      {
+        query: "EGO",
+        type: "Channel",
+        scope: "my",
+        per: 10,
+        sort: "score_desc",
+      },
+      expect.any(AbortSignal),
+    );
+    expect(getChannelMock).toHaveBeenNthCalledWith(1, "EGO", expect.any(AbortSignal));
+    expect(getChannelMock).toHaveBeenNthCalledWith(2, "ego-3xnidixovwo", expect.any(AbortSignal));
     expect(getChannelContentsMock).toHaveBeenCalledWith(
       expect.objectContaining({ idOrSlug: "ego-3xnidixovwo" }),
+      expect.any(AbortSignal),
     );
     expect(structured?.channel_resolution).toEqual({
       input: "EGO",
@@ -587,6 +1054,433 @@ describe("MCP server smoke", () => {
     }
   });
 
+  it("reads every channel page and returns a resumable cursor at the item budget", async () => {
+    const makeTextBlock = (id: number) => ({
+      type: "Text" as const,
+      id,
+      title: `Block ${id}`,
+      description: null,
+      state: "available",
+      visibility: "public",
+      commentCount: 0,
+      createdAt: null,
+      updatedAt: null,
+      user: null,
+      sourceUrl: null,
+      sourceTitle: null,
+      content: null,
+      image: null,
+      attachment: null,
+      embed: null,
+      connection: null,
+    });
+    const pages = [
+      { data: [makeTextBlock(1), makeTextBlock(2)], page: 1, nextPage: 2 },
+      { data: [makeTextBlock(3), makeTextBlock(4)], page: 2, nextPage: 3 },
+      { data: [makeTextBlock(5)], page: 3, nextPage: null },
+    ];
+    const iterateMock = vi.fn(async function* ({ page }: { page?: number }) {
+      for (const entry of pages.filter((candidate) => candidate.page >= (page ?? 1))) {
+        yield {
+          data: entry.data,
+          meta: {
+            currentPage: entry.page,
+            nextPage: entry.nextPage,
+            prevPage: null,
+            perPage: 2,
+            totalPages: 3,
+            totalCount: 5,
+            hasMorePages: entry.nextPage !== null,
+          },
+        };
+      }
+    });
+    const fakeArenaClient = {
+      ...makeFakeArenaClient(),
+      iterateChannelContents: iterateMock,
+    };
+    const server = createArenaMcpServer(makeConfig(), {
+      arenaClient: fakeArenaClient as never,
+    });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const first = await client.callTool({
+      name: "read_channel_all",
+      arguments: { id_or_slug: "channel", max_items: 3 },
+    });
+    const firstStructured = (first as { structuredContent?: Record<string, unknown> }).structuredContent;
+    expect((firstStructured?.contents as Array<{ id: number }>).map((item) => item.id)).toEqual([1, 2, 3]);
+    expect(firstStructured?.pages_fetched).toBe(2);
+    expect(firstStructured?.stop_reason).toBe("max_items");
+    expect(firstStructured?.next_cursor).toBe("2:1");
+    expect(firstStructured?.next_action).toEqual({
+      tool: "read_channel_all",
+      arguments: { id_or_slug: "channel", max_items: 3, cursor: "2:1" },
+    });
+
+    const second = await client.callTool({
+      name: "read_channel_all",
+      arguments: { id_or_slug: "channel", max_items: 3, cursor: "2:1" },
+    });
+    const secondStructured = (second as { structuredContent?: Record<string, unknown> }).structuredContent;
+    expect((secondStructured?.contents as Array<{ id: number }>).map((item) => item.id)).toEqual([4, 5]);
+    expect(secondStructured?.complete).toBe(true);
+    expect(secondStructured?.next_cursor).toBeNull();
+    expect(iterateMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ idOrSlug: "channel", page: 2 }),
+      expect.any(AbortSignal),
+    );
+  });
+
+  it("emits progress notifications per page when the request carries a progress token", async () => {
+    const iterateMock = vi.fn(async function* () {
+      for (const page of [1, 2, 3]) {
+        yield {
+          data: [],
+          meta: {
+            currentPage: page,
+            nextPage: page < 3 ? page + 1 : null,
+            prevPage: null,
+            perPage: 100,
+            totalPages: 3,
+            totalCount: 0,
+            hasMorePages: page < 3,
+          },
+        };
+      }
+    });
+    const fakeArenaClient = {
+      ...makeFakeArenaClient(),
+      iterateChannelContents: iterateMock,
+    };
+    const server = createArenaMcpServer(makeConfig(), {
+      arenaClient: fakeArenaClient as never,
+    });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const progress: Array<{ progress: number; total?: number }> = [];
+    await client.callTool({ name: "read_channel_all", arguments: { id_or_slug: "channel" } }, undefined, {
+      onprogress: ({ progress: value, total }) => progress.push({ progress: value, total }),
+    });
+
+    expect(progress).toEqual([
+      { progress: 1, total: 3 },
+      { progress: 2, total: 3 },
+      { progress: 3, total: 3 },
+    ]);
+  });
+
+  it("refuses delete_channel unless confirm_slug matches the channel slug", async () => {
+    const fakeArenaClient = makeFakeArenaClient();
+    const deleteMock = vi.fn(async () => undefined);
+    fakeArenaClient.deleteChannel = deleteMock;
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: fakeArenaClient as never });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const refused = await client.callTool({
+      name: "delete_channel",
+      arguments: { id_or_slug: "1", confirm_slug: "other" },
+    });
+    expect((refused as { isError?: boolean }).isError).toBe(true);
+    expect(JSON.stringify(refused)).toContain("Deletion not confirmed");
+    expect(deleteMock).not.toHaveBeenCalled();
+
+    const deleted = await client.callTool({
+      name: "delete_channel",
+      arguments: { id_or_slug: "1", confirm_slug: "channel" },
+    });
+    expect((deleted as { structuredContent?: Record<string, unknown> }).structuredContent).toEqual({
+      channel_id: 1,
+      slug: "channel",
+      deleted: true,
+    });
+    expect(deleteMock).toHaveBeenCalledWith("1");
+  });
+
+  it("requires confirm for disconnect_connection when the client cannot elicit", async () => {
+    const fakeArenaClient = makeFakeArenaClient();
+    const disconnectMock = vi.fn(async () => undefined);
+    fakeArenaClient.disconnectConnection = disconnectMock;
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: fakeArenaClient as never });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const refused = await client.callTool({ name: "disconnect_connection", arguments: { connection_id: 3 } });
+    expect(refused.isError).toBe(true);
+    expect(JSON.stringify(refused)).toContain('Text block 1 \\"Block\\" in channel \\"Channel\\"');
+    expect(JSON.stringify(refused)).toContain("confirm: true");
+    expect(disconnectMock).not.toHaveBeenCalled();
+
+    const confirmed = await client.callTool({
+      name: "disconnect_connection",
+      arguments: { connection_id: 3, confirm: true },
+    });
+    expect(confirmed.structuredContent).toEqual({ connection_id: 3, disconnected: true });
+    expect(disconnectMock).toHaveBeenCalledWith(3);
+
+    fakeArenaClient.getConnection = async () => {
+      throw new ArenaApiError({
+        message: "Server error",
+        status: 500,
+        responseBody: null,
+        url: "https://api.are.na/v3/connections/4",
+      });
+    };
+    const unresolved = await client.callTool({ name: "disconnect_connection", arguments: { connection_id: 4 } });
+    expect(JSON.stringify(unresolved)).toContain("Confirmation required before disconnect_connection of connection 4.");
+    const fallback = await client.callTool({
+      name: "disconnect_connection",
+      arguments: { connection_id: 4, confirm: true },
+    });
+    expect(fallback.structuredContent).toEqual({ connection_id: 4, disconnected: true });
+    expect(disconnectMock).toHaveBeenCalledWith(4);
+  });
+
+  it("resolves the connection before previewing a move_connection dry run", async () => {
+    const fakeArenaClient = makeFakeArenaClient();
+    const moveMock = vi.fn(fakeArenaClient.moveConnection);
+    fakeArenaClient.moveConnection = moveMock;
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: fakeArenaClient as never });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const preview = await client.callTool({
+      name: "move_connection",
+      arguments: { connection_id: 3, movement: "insert_at", position: 4, dry_run: true },
+    });
+    expect(preview.structuredContent).toMatchObject({
+      dry_run: true,
+      changes: [
+        '  Text block 1 "Block" in channel "Channel" (slug: channel, id: 1) (connection 3) at position 0',
+        "+ insert_at at position 4",
+      ],
+      resolved: { block: { id: 1 }, channel: { id: 1 } },
+    });
+
+    fakeArenaClient.getConnection = async () => {
+      throw new ArenaApiError({
+        message: "Not Found",
+        status: 404,
+        responseBody: null,
+        url: "https://api.are.na/v3/connections/99",
+      });
+    };
+    const missing = await client.callTool({
+      name: "move_connection",
+      arguments: { connection_id: 99, movement: "move_to_top", dry_run: true },
+    });
+    expect(missing.isError).toBe(true);
+    expect(moveMock).not.toHaveBeenCalled();
+  });
+
+  it("requires confirm for batch disconnects and undos that remove data when the client cannot elicit", async () => {
+    const fakeArenaClient = makeFakeArenaClient();
+    const disconnectMock = vi.fn(async () => undefined);
+    const deleteChannelMock = vi.fn(async () => undefined);
+    fakeArenaClient.disconnectConnection = disconnectMock;
+    fakeArenaClient.deleteChannel = deleteChannelMock;
+    const directory = await mkdtemp(join(tmpdir(), "arena-confirm-"));
+    const writeJournal = new WriteJournal(join(directory, "journal.jsonl"));
+    await writeJournal.recordWrite({
+      operation: "create_channel",
+      input: { title: "Created" },
+      ids: { channelId: 7, blockId: null, connectionId: null },
+    });
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: fakeArenaClient as never, writeJournal });
+    serverClose = async () => {
+      await server.close();
+      await rm(directory, { recursive: true, force: true });
+    };
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const refusedUndo = await client.callTool({ name: "undo_last_writes", arguments: { count: 1 } });
+    expect(refusedUndo.isError).toBe(true);
+    expect(JSON.stringify(refusedUndo)).toContain("delete channel 7");
+    expect(deleteChannelMock).not.toHaveBeenCalled();
+    const undone = await client.callTool({ name: "undo_last_writes", arguments: { count: 1, confirm: true } });
+    expect(undone.structuredContent).toMatchObject({ results: [{ status: "undone" }] });
+    expect(deleteChannelMock).toHaveBeenCalledWith("7");
+
+    const operations = [
+      { op: "connect_block", block_id: 1, channel_ids: [1] },
+      { op: "disconnect_connection", connection_id: "$1" },
+      { op: "disconnect_connection", connection_id: 3 },
+    ];
+    const refusedBatch = await client.callTool({ name: "batch_write", arguments: { operations } });
+    expect(refusedBatch.isError).toBe(true);
+    expect(JSON.stringify(refusedBatch)).toContain("the connection created by step 1, connection 3");
+    expect(disconnectMock).not.toHaveBeenCalled();
+    const batch = await client.callTool({ name: "batch_write", arguments: { operations, confirm: true } });
+    expect(batch.structuredContent).toMatchObject({ succeeded_count: 3 });
+    expect(disconnectMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("undoes exactly the journal entries the user confirmed", async () => {
+    const fakeArenaClient = makeFakeArenaClient();
+    const deleteChannelMock = vi.fn(async () => undefined);
+    const deleteBlockMock = vi.fn(async () => undefined);
+    fakeArenaClient.deleteChannel = deleteChannelMock;
+    fakeArenaClient.deleteBlock = deleteBlockMock;
+    const directory = await mkdtemp(join(tmpdir(), "arena-confirm-"));
+    const writeJournal = new WriteJournal(join(directory, "journal.jsonl"));
+    await writeJournal.recordWrite({
+      operation: "create_channel",
+      input: { title: "Created" },
+      ids: { channelId: 7, blockId: null, connectionId: null },
+    });
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: fakeArenaClient as never, writeJournal });
+    serverClose = async () => {
+      await server.close();
+      await rm(directory, { recursive: true, force: true });
+    };
+
+    client = new Client({ name: "test-client", version: "1.0.0" }, { capabilities: { elicitation: {} } });
+    client.setRequestHandler(ElicitRequestSchema, async () => {
+      // Another session writes while the user is looking at the confirmation prompt.
+      await writeJournal.recordWrite({
+        operation: "create_block",
+        input: { value: "Later" },
+        ids: { channelId: null, blockId: 99, connectionId: null },
+      });
+      return { action: "accept", content: { confirm: true } };
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const undone = await client.callTool({ name: "undo_last_writes", arguments: { count: 1 } });
+    expect(undone.structuredContent).toMatchObject({ results: [{ operation: "create_channel", status: "undone" }] });
+    expect(deleteChannelMock).toHaveBeenCalledWith("7");
+    expect(deleteBlockMock).not.toHaveBeenCalled();
+  });
+
+  it("asks the user through elicitation before destructive writes", async () => {
+    const fakeArenaClient = makeFakeArenaClient();
+    const disconnectMock = vi.fn(async () => undefined);
+    const deleteBlockMock = vi.fn(async () => undefined);
+    fakeArenaClient.disconnectConnection = disconnectMock;
+    fakeArenaClient.deleteBlock = deleteBlockMock;
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: fakeArenaClient as never });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" }, { capabilities: { elicitation: {} } });
+    const prompts: string[] = [];
+    let answer: "accept" | "decline" = "decline";
+    client.setRequestHandler(ElicitRequestSchema, async (request) => {
+      prompts.push(request.params.message);
+      return answer === "accept" ? { action: "accept", content: { confirm: true } } : { action: "decline" };
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const elicitationRelatedIds: unknown[] = [];
+    const send = serverTransport.send.bind(serverTransport);
+    serverTransport.send = async (message, options) => {
+      if ("method" in message && message.method === "elicitation/create") {
+        elicitationRelatedIds.push(options?.relatedRequestId);
+      }
+      return send(message, options);
+    };
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const declined = await client.callTool({
+      name: "disconnect_connection",
+      arguments: { connection_id: 3, confirm: true },
+    });
+    expect(declined.isError).toBe(true);
+    expect(JSON.stringify(declined)).toContain("did not confirm");
+    expect(disconnectMock).not.toHaveBeenCalled();
+
+    answer = "accept";
+    const disconnected = await client.callTool({ name: "disconnect_connection", arguments: { connection_id: 3 } });
+    expect(disconnected.isError).toBeFalsy();
+    expect(disconnectMock).toHaveBeenCalledWith(3);
+
+    await client.callTool({ name: "delete_block", arguments: { block_id: 1 } });
+    expect(deleteBlockMock).toHaveBeenCalledWith(1);
+
+    expect(prompts).toEqual([
+      'Disconnect Text block 1 "Block" in channel "Channel" (slug: channel, id: 1) (connection 3)? This cannot be undone.',
+      'Disconnect Text block 1 "Block" in channel "Channel" (slug: channel, id: 1) (connection 3)? This cannot be undone.',
+      'Delete Text block 1 "Block"? This cannot be undone.',
+    ]);
+    expect(elicitationRelatedIds).toHaveLength(3);
+    expect(elicitationRelatedIds.every((id) => id !== undefined)).toBe(true);
+  });
+
+  it("previews mutations without calling the write endpoint when dry_run is set", async () => {
+    const fakeArenaClient = makeFakeArenaClient();
+    const connectMock = vi.fn(fakeArenaClient.connectBlock);
+    fakeArenaClient.connectBlock = connectMock;
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: fakeArenaClient as never });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const result = await client.callTool({
+      name: "connect_block",
+      arguments: { block_id: 1, channel_ids: [1], dry_run: true },
+    });
+    const structured = (result as { structuredContent?: Record<string, unknown> }).structuredContent;
+    expect(structured?.dry_run).toBe(true);
+    expect(structured?.request).toEqual({
+      method: "POST",
+      url: "https://api.are.na/v3/connections",
+      headers: { Authorization: "Bearer <redacted>" },
+      body: { connectable_id: 1, connectable_type: "Block", channel_ids: [1] },
+    });
+    expect(structured?.changes).toEqual(['+ Text block 1 "Block" in channel "Channel" (slug: channel, id: 1)']);
+    expect(connectMock).not.toHaveBeenCalled();
+
+    const update = await client.callTool({
+      name: "update_block",
+      arguments: { block_id: 1, title: "Renamed", dry_run: true },
+    });
+    expect((update as { structuredContent?: Record<string, unknown> }).structuredContent?.changes).toEqual([
+      '  Text block 1 "Block"',
+      '- title: "Block"',
+      '+ title: "Renamed"',
+    ]);
+  });
+
+  it("reports the remaining Are.na rate-limit budget in structured content", async () => {
+    const fakeArenaClient = makeFakeArenaClient();
+    fakeArenaClient.getRateLimitStatus = () => ({ limit: 60, remaining: 12, resetAt: "2026-10-19T12:00:00.000Z" });
+    const server = createArenaMcpServer(makeConfig(), { arenaClient: fakeArenaClient as never });
+    serverClose = () => server.close();
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const result = await client.callTool({ name: "get_user", arguments: { id_or_slug: "me" } });
+    expect((result as { structuredContent?: Record<string, unknown> }).structuredContent?.rate_limit).toEqual({
+      limit: 60,
+      remaining: 12,
+      reset_at: "2026-10-19T12:00:00.000Z",
+    });
+  });
+
   it("enforces write scope when configured", async () => {
     const fakeArenaClient = makeFakeArenaClient();
     const server = createArenaMcpServer(makeConfig(), {
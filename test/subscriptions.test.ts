@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { type SubscriptionClient, SubscriptionRegistry, parseSubscriptionUri } from "../src/mcp/subscriptions.js";
+import type {
+  ChannelContentsParams,
+  NormalizedBlock,
+  NormalizedChannel,
+  NormalizedConnectable,
+  NormalizedConnectionContext,
+  PaginatedResult,
+} from "../src/arena/types.js";
+
+function makeChannel(
+  id: number,
+  updatedAt: string | null = null,
+  connection: NormalizedConnectionContext | null = null,
+): NormalizedChannel {
+  return {
+    type: "Channel",
+    id,
+    slug: `channel-${id}`,
+    title: `Channel ${id}`,
+    description: null,
+    state: "available",
+    visibility: "public",
+    createdAt: null,
+    updatedAt,
+    owner: null,
+    counts: null,
+    connection,
+  };
+}
+
+function makeBlock(
+  id: number,
+  updatedAt: string | null = null,
+  connection: NormalizedConnectionContext | null = null,
+): NormalizedBlock {
+  return {
+    type: "Text",
+    id,
+    title: `Block ${id}`,
+    description: null,
+    state: "available",
+    visibility: "public",
+    commentCount: 0,
+    createdAt: null,
+    updatedAt,
+    user: null,
+    sourceUrl: null,
+    sourceTitle: null,
+    content: null,
+    image: null,
+    attachment: null,
+    embed: null,
+    connection,
+  };
+}
+
+function connectedAt(id: number, position: number): NormalizedConnectionContext {
+  return { id, position, pinned: false, connectedAt: null, connectedBy: null };
+}
+
+function page<T>(data: T[]): PaginatedResult<T> {
+  return {
+    data,
+    meta: {
+      currentPage: 1,
+      nextPage: null,
+      prevPage: null,
+      perPage: 100,
+      totalPages: 1,
+      totalCount: data.length,
+      hasMorePages: false,
+    },
+  };
+}
+
+function makeFakeArenaClient() {
+  const contents: NormalizedConnectable[] = [
+    makeBlock(1, null, connectedAt(11, 1)),
+    makeChannel(2, null, connectedAt(12, 2)),
+  ];
+  const state = {
+    channelUpdatedAt: "2026-01-01T00:00:00Z",
+    contents,
+    blockUpdatedAt: "2026-01-01T00:00:00Z",
+    blockChannels: [makeChannel(10)],
+    failing: false,
+    readOptions: [] as unknown[],
+    contentSorts: [] as Array<string | undefined>,
+  };
+  const client = {
+    getChannel: async (idOrSlug: string, _signal?: AbortSignal, options?: unknown) => {
+      state.readOptions.push(options);
+      if (state.failing) {
+        throw new Error("unavailable");
+      }
+      return makeChannel(Number(idOrSlug) || 1, state.channelUpdatedAt);
+    },
+    getChannelContents: async (params: ChannelContentsParams, _signal?: AbortSignal, options?: unknown) => {
+      state.readOptions.push(options);
+      state.contentSorts.push(params.sort);
+      // Mirror the API: position order only when asked for, otherwise newest connections first.
+      const sorted =
+        params.sort === "position_asc"
+          ? [...state.contents].sort((a, b) => (a.connection?.position ?? 0) - (b.connection?.position ?? 0))
+          : [...state.contents].sort((a, b) => (b.connection?.id ?? 0) - (a.connection?.id ?? 0));
+      return page(sorted);
+    },
+    getBlock: async (id: number, _signal?: AbortSignal, options?: unknown) => {
+      state.readOptions.push(options);
+      return makeBlock(id, state.blockUpdatedAt);
+    },
+    getBlockConnections: async (_params: unknown, _signal?: AbortSignal, options?: unknown) => {
+      state.readOptions.push(options);
+      return page(state.blockChannels);
+    },
+  } satisfies SubscriptionClient;
+  return { client, state };
+}
+
+describe("resource subscriptions", () => {
+  let registry: SubscriptionRegistry | null = null;
+
+  afterEach(() => {
+    registry?.close();
+    registry = null;
+  });
+
+  it("parses channel and block URIs and rejects everything else", () => {
+    expect(parseSubscriptionUri("arena://channel/owner/my-channel")).toEqual({
+      kind: "channel",
+      idOrSlug: "owner/my-channel",
+    });
+    expect(parseSubscriptionUri("arena://channel/team/page/2.json")).toEqual({ kind: "channel", idOrSlug: "team" });
+    expect(parseSubscriptionUri("arena://block/42")).toEqual({ kind: "block", id: 42 });
+    expect(parseSubscriptionUri("arena://block/42.json")).toEqual({ kind: "block", id: 42 });
+    expect(parseSubscriptionUri("arena://block/abc")).toBeNull();
+    expect(parseSubscriptionUri("arena://me")).toBeNull();
+  });
+
+  it("notifies when connections are added, removed, or reordered, or updatedAt changes", async () => {
+    const { client, state } = makeFakeArenaClient();
+    const updated: string[] = [];
+    registry = new SubscriptionRegistry(client, { intervalMs: 60_000 });
+    registry.onupdated = (uri) => {
+      updated.push(uri);
+    };
+
+    await registry.subscribe("arena://channel/team");
+    await registry.subscribe("arena://block/5");
+    await registry.poll();
+    expect(updated).toEqual([]);
+
+    state.contents = state.contents.map((item) => ({
+      ...item,
+      connection: connectedAt(item.connection?.id ?? 0, 3 - (item.connection?.position ?? 0)),
+    }));
+    await registry.poll();
+    expect(updated).toEqual(["arena://channel/team"]);
+
+    state.contents = [...state.contents, makeBlock(3, null, connectedAt(13, 3))];
+    state.blockUpdatedAt = "2026-02-01T00:00:00Z";
+    await registry.poll();
+    expect(updated).toEqual(["arena://channel/team", "arena://channel/team", "arena://block/5"]);
+
+    state.blockChannels = [];
+    await registry.poll();
+    expect(updated.at(-1)).toBe("arena://block/5");
+    expect(updated).toHaveLength(4);
+    expect(state.readOptions).toEqual(state.readOptions.map(() => ({ bypassCache: true })));
+    expect(new Set(state.contentSorts)).toEqual(new Set(["position_asc"]));
+  });
+
+  it("keeps the last snapshot across failed polls and stops polling after unsubscribe or close", async () => {
+    const { client, state } = makeFakeArenaClient();
+    const updated: string[] = [];
+    registry = new SubscriptionRegistry(client, { intervalMs: 60_000 });
+    registry.onupdated = (uri) => {
+      updated.push(uri);
+    };
+
+    await registry.subscribe("arena://channel/team");
+    state.failing = true;
+    await registry.poll();
+    state.failing = false;
+    await registry.poll();
+    expect(updated).toEqual([]);
+
+    registry.unsubscribe("arena://channel/team");
+    state.channelUpdatedAt = "2026-03-01T00:00:00Z";
+    await registry.poll();
+    expect(updated).toEqual([]);
+    expect(registry.size).toBe(0);
+
+    await registry.subscribe("arena://block/5");
+    registry.close();
+    expect(registry.size).toBe(0);
+    await registry.subscribe("arena://block/6");
+    expect(registry.size).toBe(0);
+  });
+
+  it("rejects unsupported URIs", async () => {
+    const { client } = makeFakeArenaClient();
+    registry = new SubscriptionRegistry(client, { intervalMs: 60_000 });
+    await expect(registry.subscribe("arena://user/someone")).rejects.toThrow(/Subscriptions are supported/);
+  });
+});